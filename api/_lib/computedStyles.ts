@@ -0,0 +1,398 @@
+import postcss, { type AtRule, type Node as CssNode, type Rule } from 'postcss';
+import type { load } from 'cheerio';
+
+// Files under api/_lib are shared helpers, not endpoints.
+//
+// A small cascade engine: parses the page's inline and linked stylesheets and
+// resolves the values a browser would compute for the elements we care about.
+// It assumes a 1280px wide screen and ignores pseudo-classes, so :hover and
+// friends never apply.
+
+const VIEWPORT_WIDTH = 1280;
+const MAX_STYLESHEETS = 10;
+const MAX_STYLESHEET_BYTES = 2 * 1024 * 1024;
+
+const INHERITED_PROPERTIES = new Set([
+  'color',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'line-height',
+]);
+
+const COLOR_PATTERN = /#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|hsla?\([^)]*\)|\b(?:white|black)\b/i;
+
+// Words in a background shorthand that are not a named color
+const BACKGROUND_KEYWORDS = new Set([
+  'none', 'repeat', 'no-repeat', 'repeat-x', 'repeat-y', 'space', 'round', 'scroll', 'fixed', 'local',
+  'center', 'top', 'bottom', 'left', 'right', 'auto', 'cover', 'contain',
+  'border-box', 'padding-box', 'content-box', 'text',
+]);
+
+type CheerioAPI = ReturnType<typeof load>;
+type Element = Parameters<CheerioAPI>[0];
+
+interface Declaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+interface StyleRule {
+  selector: string;
+  specificity: number;
+  order: number;
+  // Lower-cased id/classes/tag of the rightmost compound, used to skip rules
+  // that cannot match before asking css-select
+  key: { id?: string; classes: string[]; tag?: string };
+  declarations: Declaration[];
+}
+
+export interface FontFace {
+  family: string;
+  src: string[];
+}
+
+export interface ParsedStylesheets {
+  rules: StyleRule[];
+  fontFaces: FontFace[];
+  // Every value seen per property, in source order, for frequency ranking
+  values: Map<string, string[]>;
+}
+
+export type FetchText = (url: string) => Promise<string>;
+
+// Inline <style> blocks and linked stylesheets, in document order
+export async function collectStylesheets(
+  $: CheerioAPI,
+  baseUrl: string,
+  fetchText: FetchText
+): Promise<{ css: string; url: string }[]> {
+  const sources: ({ inline: string } | { href: string })[] = [];
+  $('style, link[rel~="stylesheet"]').each((_, el) => {
+    if ($(el).is('style')) {
+      sources.push({ inline: $(el).text() });
+    } else {
+      const href = $(el).attr('href');
+      const media = $(el).attr('media');
+      if (href && (!media || matchesMedia(media))) sources.push({ href });
+    }
+  });
+
+  let remaining = MAX_STYLESHEET_BYTES;
+  const stylesheets: { css: string; url: string }[] = [];
+  let fetched = 0;
+  for (const source of sources) {
+    if (remaining <= 0) break;
+    if ('inline' in source) {
+      stylesheets.push({ css: source.inline, url: baseUrl });
+      remaining -= source.inline.length;
+      continue;
+    }
+    if (fetched >= MAX_STYLESHEETS) continue;
+    fetched++;
+    try {
+      const url = new URL(source.href, baseUrl).href;
+      const css = (await fetchText(url)).slice(0, remaining);
+      stylesheets.push({ css, url });
+      remaining -= css.length;
+    } catch (error) {
+      console.log('[Scraping API] Skipping stylesheet', source.href, error instanceof Error ? error.message : error);
+    }
+  }
+  return stylesheets;
+}
+
+// Evaluates a media query list for a desktop screen. Unknown features are
+// treated as not matching.
+function matchesMedia(query: string): boolean {
+  return query.split(',').some(part => {
+    const q = part.trim().toLowerCase();
+    if (!q || q === 'all' || q === 'screen') return true;
+    if (/\bprint\b|\bspeech\b/.test(q) || q.startsWith('not ')) return false;
+    const features = q.match(/\([^)]*\)/g) || [];
+    return features.every(feature => {
+      const match = /\(\s*(min|max)-width\s*:\s*([\d.]+)(px|em|rem)\s*\)/.exec(feature);
+      if (!match) return false;
+      const px = parseFloat(match[2]) * (match[3] === 'px' ? 1 : 16);
+      return match[1] === 'min' ? VIEWPORT_WIDTH >= px : VIEWPORT_WIDTH <= px;
+    });
+  });
+}
+
+function isActive(node: Rule | AtRule): boolean {
+  let parent: CssNode | undefined = node.parent;
+  while (parent && parent.type !== 'root') {
+    if (parent.type === 'atrule') {
+      const atRule = parent as AtRule;
+      if (atRule.name === 'media' && !matchesMedia(atRule.params)) return false;
+      if (['keyframes', '-webkit-keyframes', 'font-feature-values', 'page'].includes(atRule.name)) return false;
+    }
+    parent = parent.parent;
+  }
+  return true;
+}
+
+export function specificity(selector: string): number {
+  const cleaned = selector
+    .replace(/::?(?:before|after|first-line|first-letter|placeholder|selection|marker)\b/g, '')
+    .replace(/:(?:not|is|has)\(([^)]*)\)/g, ' $1')
+    .replace(/:where\([^)]*\)/g, '');
+  const ids = (cleaned.match(/#[\w-]+/g) || []).length;
+  const classes = (cleaned.match(/\.[\w-]+|\[[^\]]*\]|:[\w-]+/g) || []).length;
+  const types = (cleaned.replace(/\[[^\]]*\]/g, '').match(/(?:^|[\s>+~])([a-z][\w-]*)/gi) || []).length;
+  return ids * 10000 + classes * 100 + types;
+}
+
+function selectorKey(selector: string): StyleRule['key'] {
+  const compounds = selector.trim().split(/\s*[\s>+~]\s*/);
+  const last = (compounds[compounds.length - 1] || '').replace(/\[[^\]]*\]|\([^)]*\)/g, '');
+  return {
+    id: /#([\w-]+)/.exec(last)?.[1],
+    classes: (last.match(/\.([\w-]+)/g) || []).map(c => c.slice(1)),
+    tag: /^([a-z][\w-]*)/i.exec(last)?.[1]?.toLowerCase(),
+  };
+}
+
+function stripQuotes(value: string): string {
+  return value.replace(/^['"]|['"]$/g, '').trim();
+}
+
+export function parseStylesheets(stylesheets: { css: string; url: string }[]): ParsedStylesheets {
+  const rules: StyleRule[] = [];
+  const fontFaces: FontFace[] = [];
+  const values = new Map<string, string[]>();
+  let order = 0;
+
+  for (const { css, url } of stylesheets) {
+    let root;
+    try {
+      root = postcss.parse(css);
+    } catch (error) {
+      console.log('[Scraping API] Could not parse stylesheet', url, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    root.walkAtRules('font-face', atRule => {
+      let family = '';
+      const src: string[] = [];
+      atRule.walkDecls(decl => {
+        if (decl.prop === 'font-family') family = stripQuotes(decl.value);
+        if (decl.prop === 'src') {
+          for (const match of decl.value.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/g)) {
+            try {
+              src.push(new URL(match[1], url).href);
+            } catch {
+              // Unresolvable font URLs are dropped
+            }
+          }
+        }
+      });
+      if (family) fontFaces.push({ family, src });
+    });
+
+    root.walkRules(rule => {
+      if (!isActive(rule)) return;
+      const declarations: Declaration[] = [];
+      rule.each(node => {
+        if (node.type !== 'decl') return;
+        const property = node.prop.toLowerCase();
+        declarations.push(...expandShorthand({ property, value: node.value, important: !!node.important }));
+        const seen = values.get(property) || [];
+        seen.push(node.value);
+        values.set(property, seen);
+      });
+      if (declarations.length === 0) return;
+
+      for (const selector of rule.selectors) {
+        rules.push({
+          selector,
+          specificity: specificity(selector),
+          order: order++,
+          key: selectorKey(selector),
+          declarations,
+        });
+      }
+    });
+  }
+
+  return { rules, fontFaces, values };
+}
+
+function parseInlineStyle(style: string | undefined): Declaration[] {
+  if (!style) return [];
+  return style.split(';').flatMap(part => {
+    const colon = part.indexOf(':');
+    if (colon === -1) return [];
+    const property = part.slice(0, colon).trim().toLowerCase();
+    let value = part.slice(colon + 1).trim();
+    const important = /!important\s*$/i.test(value);
+    value = value.replace(/!important\s*$/i, '').trim();
+    return property && value ? expandShorthand({ property, value, important }) : [];
+  });
+}
+
+export interface StyleResolver {
+  // Computed value of a property after cascade, inheritance and var()
+  get(el: Element, property: string): string;
+  fontFaces: FontFace[];
+  values: Map<string, string[]>;
+}
+
+export function createStyleResolver($: CheerioAPI, parsed: ParsedStylesheets): StyleResolver {
+  const cascadeCache = new Map<Element, Map<string, string>>();
+
+  const mightMatch = (el: Element, key: StyleRule['key']) => {
+    const $el = $(el);
+    if (key.tag && key.tag !== '*' && ($el.prop('tagName') || '').toLowerCase() !== key.tag) return false;
+    if (key.id && $el.attr('id') !== key.id) return false;
+    return key.classes.every(c => $el.hasClass(c));
+  };
+
+  const cascade = (el: Element): Map<string, string> => {
+    const cached = cascadeCache.get(el);
+    if (cached) return cached;
+
+    const matched: { declaration: Declaration; rank: number }[] = [];
+    for (const rule of parsed.rules) {
+      if (!mightMatch(el, rule.key)) continue;
+      let matches = false;
+      try {
+        matches = $(el).is(rule.selector);
+      } catch {
+        // Selectors css-select does not understand never match
+      }
+      if (!matches) continue;
+      for (const declaration of rule.declarations) {
+        matched.push({ declaration, rank: rule.specificity * 1e6 + rule.order });
+      }
+    }
+    // Inline styles beat any selector
+    for (const declaration of parseInlineStyle($(el).attr('style'))) {
+      matched.push({ declaration, rank: Number.MAX_SAFE_INTEGER / 2 });
+    }
+
+    const resolved = new Map<string, { value: string; important: boolean; rank: number }>();
+    for (const { declaration, rank } of matched) {
+      const current = resolved.get(declaration.property);
+      const wins = !current
+        || (declaration.important && !current.important)
+        || (declaration.important === current.important && rank >= current.rank);
+      if (wins) {
+        resolved.set(declaration.property, { value: declaration.value, important: declaration.important, rank });
+      }
+    }
+
+    const result = new Map<string, string>();
+    resolved.forEach(({ value }, property) => result.set(property, value));
+    cascadeCache.set(el, result);
+    return result;
+  };
+
+  const specified = (el: Element, property: string): string => {
+    const inherits = INHERITED_PROPERTIES.has(property) || property.startsWith('--');
+    for (let node: Element | null = el; node; node = inherits ? parentElement($, node) : null) {
+      const value = cascade(node).get(property);
+      if (value !== undefined && value !== 'inherit') return value;
+    }
+    return '';
+  };
+
+  const resolveVars = (el: Element, value: string, depth = 0): string => {
+    if (depth > 10 || !value.includes('var(')) return value;
+    const replaced = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\)[^()]*)*))?\)/g, (_, name, fallback) =>
+      specified(el, name) || fallback || ''
+    );
+    return resolveVars(el, replaced, depth + 1).trim();
+  };
+
+  return {
+    get: (el, property) => resolveVars(el, specified(el, property)),
+    fontFaces: parsed.fontFaces,
+    values: parsed.values,
+  };
+}
+
+function parentElement($: CheerioAPI, el: Element): Element | null {
+  const parent = $(el).parent();
+  return parent.length ? parent.get(0) || null : null;
+}
+
+// Adds the longhands we read to a shorthand declaration, so they take part in
+// the cascade like any other: `padding-top: 0` before `padding: 1rem` loses,
+// after it wins. Longhands the shorthand leaves out get their initial value,
+// as they would in a browser.
+function expandShorthand(declaration: Declaration): Declaration[] {
+  const { property, value, important } = declaration;
+  const longhands = (entries: [string, string][]) => [
+    declaration,
+    ...entries.map(([name, longhandValue]) => ({ property: name, value: longhandValue, important })),
+  ];
+  const trimmed = value.trim();
+
+  if (/^(?:inherit|initial|unset)$/i.test(trimmed)) {
+    const names = {
+      background: ['background-color', 'background-image'],
+      padding: ['padding-top', 'padding-right', 'padding-bottom', 'padding-left'],
+      font: ['font-family', 'font-size', 'font-weight', 'line-height'],
+    }[property];
+    return names ? longhands(names.map(name => [name, trimmed.toLowerCase()])) : [declaration];
+  }
+
+  switch (property) {
+    case 'background': {
+      // A lone var() is almost always a color token; it is resolved later
+      const withoutFunctions = value.replace(/[a-z-]*gradient\([^)]*(?:\([^)]*\)[^)]*)*\)|url\([^)]*\)/gi, '');
+      const color = /^var\([^)]*\)$/.test(trimmed)
+        ? trimmed
+        : COLOR_PATTERN.exec(withoutFunctions)?.[0]
+          || withoutFunctions.split(/[\s,/]+/).find(word => /^[a-z]+$/i.test(word) && !BACKGROUND_KEYWORDS.has(word.toLowerCase()));
+      return longhands([
+        ['background-color', color || 'transparent'],
+        ['background-image', value.includes('gradient(') ? value : 'none'],
+      ]);
+    }
+    case 'padding': {
+      // padding: top [right [bottom [left]]]
+      const [top, right = top, bottom = top, left = right] = trimmed.split(/\s+/);
+      return longhands([
+        ['padding-top', top],
+        ['padding-right', right],
+        ['padding-bottom', bottom],
+        ['padding-left', left],
+      ]);
+    }
+    case 'font': {
+      // font: [style] [weight] size[/line-height] family
+      const match = /(?:^|\s)([\d.]+(?:px|r?em|%|pt))(?:\/(\S+))?\s+(.+)$/.exec(value);
+      if (!match) return [declaration];
+      const weight = /\b(bold|[1-9]00)\b/.exec(value.slice(0, match.index));
+      return longhands([
+        ['font-family', match[3]],
+        ['font-size', match[1]],
+        ['font-weight', weight ? weight[1] : 'normal'],
+        ['line-height', match[2] || 'normal'],
+      ]);
+    }
+    default:
+      return [declaration];
+  }
+}
+
+// Most frequent values first
+export function rankByFrequency(values: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const normalized = value.trim();
+    if (!normalized || normalized === 'none' || normalized === '0' || normalized.includes('var(')) continue;
+    counts.set(normalized, (counts.get(normalized) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+export function normalizeFontFamily(value: string): string {
+  return value.replace(/['"]/g, '').replace(/\s*!important/, '').trim();
+}
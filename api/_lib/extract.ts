@@ -0,0 +1,325 @@
+import * as cheerio from 'cheerio';
+import {
+  collectStylesheets,
+  createStyleResolver,
+  normalizeFontFamily,
+  parseStylesheets,
+  rankByFrequency,
+  type FetchText,
+  type FontFace,
+} from './computedStyles';
+import { buildPalette, normalizeColor, rankColors } from '../../src/lib/palette';
+import type { ColorPalette, ColorSource } from '../../src/types/database';
+
+// Turns a page's HTML (plus the stylesheets it links to, loaded through
+// fetchText) into the asset payload returned by /api/scrape. Kept free of any
+// network code so it can run against saved fixtures.
+
+// Helper function to resolve URLs
+export function resolveUrl(base: string, url: string): string {
+  try {
+    if (!url) return '';
+    if (url.startsWith('data:')) return '';
+    if (url.startsWith('http://') || url.startsWith('https://')) return url;
+    if (url.startsWith('//')) {
+      const baseUrl = new URL(base);
+      return `${baseUrl.protocol}${url}`;
+    }
+    return new URL(url, base).href;
+  } catch {
+    return '';
+  }
+}
+
+// Builds a matcher for the brand name that tolerates the usual spellings in
+// markup: "Acme Labs" matches "acme-labs", "acme_labs", "AcmeLabs" and
+// "/img/acmelabs-logo.svg"
+function createBrandMatcher(brand: string): (text: string | undefined) => boolean {
+  const compact = brand.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return (text) => {
+    if (!text || !compact) return false;
+    return text.toLowerCase().replace(/[^a-z0-9]/g, '').includes(compact);
+  };
+}
+
+function getFilename(src: string): string {
+  try {
+    return decodeURIComponent(new URL(src, 'http://placeholder').pathname.split('/').pop() || '');
+  } catch {
+    return src;
+  }
+}
+
+// Writes top/right/bottom/left as the shortest equivalent shorthand; empty
+// when every side is 0
+function compactSides([top, right, bottom, left]: string[]): string {
+  if ([top, right, bottom, left].every(side => side === '0')) return '';
+  if (right !== left) return `${top} ${right} ${bottom} ${left}`;
+  if (top !== bottom) return `${top} ${right} ${bottom}`;
+  return top === right ? top : `${top} ${right}`;
+}
+
+const COLOR_ELEMENTS = 'body, header, footer, nav, main, section, h1, h2, h3, p, a, button, [class*="btn"], [class*="button"], [class*="hero"], [class*="card"]';
+const BUTTON_ELEMENTS = 'button, .button, [class*="btn"], [class*="button"], [role="button"], input[type="submit"]';
+const CONTAINER_ELEMENTS = '.container, [class*="container"], [class*="wrapper"], main';
+const MAX_SAMPLED_ELEMENTS = 300;
+const MAX_COLORS = 20;
+const SPACING_TOKEN = /^\d*\.?\d+(?:px|rem|em)$/;
+
+export async function extractAssets(
+  html: string,
+  url: string,
+  brand: string,
+  fetchText: FetchText
+): Promise<ExtractedAssets> {
+  const $ = cheerio.load(html);
+  const stylesheets = await collectStylesheets($, url, fetchText);
+  const styles$ = createStyleResolver($, parseStylesheets(stylesheets));
+  console.log(`[Scraping API] Parsed ${stylesheets.length} stylesheets`);
+
+  const matchesBrand = createBrandMatcher(brand);
+  const brandMatch: BrandMatch | null = brand
+    ? { brand, logo: null, colors: [], images: [] }
+    : null;
+
+  // Containers named after the brand (multi-brand sites usually scope each
+  // brand's theme with a class or id)
+  const brandContainers = brand
+    ? $('[class], [id], [data-brand], [aria-label]').filter((_, el) => {
+        const $el = $(el);
+        return ['class', 'id', 'data-brand', 'aria-label'].some(attr => matchesBrand($el.attr(attr)));
+      })
+    : $([]);
+
+  // Extract colors from computed styles. Colors from brand containers come
+  // first so they take the primary slots; the rest are ranked by usage.
+  const brandColors: string[] = [];
+  brandContainers.find('*').addBack().slice(0, MAX_SAMPLED_ELEMENTS).each((_, el) => {
+    brandColors.push(styles$.get(el, 'background-color'), styles$.get(el, 'color'));
+  });
+  const usedColors: string[] = [];
+  $(COLOR_ELEMENTS).slice(0, MAX_SAMPLED_ELEMENTS).each((_, el) => {
+    usedColors.push(styles$.get(el, 'color'), styles$.get(el, 'background-color'));
+  });
+  const rankedColors = rankColors([...brandColors, ...usedColors], brandColors).slice(0, MAX_COLORS);
+  const brandHex = new Set(rankColors(brandColors).map(color => color.hex));
+  if (brandMatch) {
+    brandMatch.colors = Array.from(brandHex);
+  }
+  const colorSources: Record<string, ColorSource> = {};
+  rankedColors.forEach(color => {
+    colorSources[color.hex] = brandHex.has(color.hex) ? 'brand' : 'stylesheet';
+  });
+
+  // Extract fonts: the stacks actually used, then any @font-face families
+  const fonts = new Set<string>();
+  $('body, h1, h2, h3, p, button').slice(0, MAX_SAMPLED_ELEMENTS).each((_, el) => {
+    const fontFamily = normalizeFontFamily(styles$.get(el, 'font-family'));
+    if (fontFamily) fonts.add(fontFamily);
+  });
+  styles$.fontFaces.forEach(face => fonts.add(face.family));
+
+  // Deduplicate button styles
+  const buttonStylesSet = new Set<string>();
+  const buttonStyles: ButtonStyle[] = [];
+  $(BUTTON_ELEMENTS).slice(0, MAX_SAMPLED_ELEMENTS).each((_, el) => {
+    const backgroundColor = normalizeColor(styles$.get(el, 'background-color'));
+    const color = normalizeColor(styles$.get(el, 'color'));
+    // From the longhands: a later padding-left overrides part of a padding
+    const padding = compactSides([
+      styles$.get(el, 'padding-top'),
+      styles$.get(el, 'padding-right'),
+      styles$.get(el, 'padding-bottom'),
+      styles$.get(el, 'padding-left'),
+    ].map(value => value || '0'));
+    const borderRadius = styles$.get(el, 'border-radius');
+
+    const styleKey = JSON.stringify({
+      backgroundColor: backgroundColor || '#4F46E5',
+      color: color || '#FFFFFF',
+      padding: padding || '0.75rem 1.5rem',
+      borderRadius: borderRadius || '0.375rem'
+    });
+
+    if (!buttonStylesSet.has(styleKey)) {
+      buttonStylesSet.add(styleKey);
+      buttonStyles.push(JSON.parse(styleKey));
+    }
+  });
+
+  // Extract header styles with computed values
+  const headerStylesSet = new Set<string>();
+  const headerStyles: HeaderStyle[] = [];
+  $('h1, h2, h3, h4, h5, h6').each((_, el) => {
+    const styleKey = JSON.stringify({
+      fontSize: styles$.get(el, 'font-size') || '1rem',
+      fontWeight: styles$.get(el, 'font-weight') || '600',
+      color: normalizeColor(styles$.get(el, 'color')) || '#111827',
+      fontFamily: normalizeFontFamily(styles$.get(el, 'font-family')) || 'system-ui'
+    });
+
+    if (!headerStylesSet.has(styleKey)) {
+      headerStylesSet.add(styleKey);
+      headerStyles.push(JSON.parse(styleKey));
+    }
+  });
+
+  // Extract images, brand-related ones first
+  const images = new Set<string>();
+  const isBrandImage = (alt?: string, src?: string) =>
+    matchesBrand(alt) || matchesBrand(getFilename(src || ''));
+  if (brand) {
+    $('img').filter((_, el) => isBrandImage($(el).attr('alt'), $(el).attr('src'))).each((_, el) => {
+      const src = resolveUrl(url, $(el).attr('src') || '');
+      if (src && !images.has(src)) {
+        images.add(src);
+        brandMatch?.images.push(src);
+      }
+    });
+  }
+  $('img').each((_, el) => {
+    const src = $(el).attr('src');
+    if (src) images.add(resolveUrl(url, src));
+  });
+
+  // Extract logo. With a brand, a logo whose alt/src/filename names the
+  // brand wins over the site-wide logo.
+  const logoCandidates = $('img[src*="logo"], img[alt*="logo" i], img[class*="logo"], a[href="/"] img');
+  const brandLogo = brand
+    ? logoCandidates.filter((_, el) => isBrandImage($(el).attr('alt'), $(el).attr('src'))).first().attr('src')
+      || brandContainers.find('img[src*="logo"], img[alt*="logo" i], img[class*="logo"]').first().attr('src')
+    : undefined;
+  const logo = resolveUrl(url, brandLogo || logoCandidates.first().attr('src') || '');
+  if (brandMatch && brandLogo) {
+    brandMatch.logo = logo;
+  }
+
+  // Extract header and footer colors
+  const colorOf = (selector: string, property = 'background-color') => {
+    const el = $(selector).get(0);
+    return (el && normalizeColor(styles$.get(el, property))) || '';
+  };
+  const headerBackgroundColor = colorOf('header');
+  const footerBackgroundColor = colorOf('footer');
+  const footerLogo = $('footer img[src*="logo"]').first().attr('src') || '';
+
+  // Extract section background colors
+  const sectionBackgroundColors = new Set<string>();
+  $('section, div[class*="section"]').slice(0, MAX_SAMPLED_ELEMENTS).each((_, el) => {
+    const bgColor = normalizeColor(styles$.get(el, 'background-color'));
+    if (bgColor) sectionBackgroundColors.add(bgColor);
+  });
+
+  // What the page itself uses each color for, where it says so
+  const bodyBackground = colorOf('body') || colorOf('html');
+  const palette = buildPalette(rankedColors, {
+    background: bodyBackground,
+    text: colorOf('body', 'color'),
+    primary: buttonStyles.find(button => button.backgroundColor !== '#4F46E5')?.backgroundColor,
+    surface: Array.from(sectionBackgroundColors).find(color => color !== bodyBackground),
+  });
+
+  // Layout from the first container that constrains its width
+  const container = $(CONTAINER_ELEMENTS).filter((_, el) => {
+    const maxWidth = styles$.get(el, 'max-width');
+    return !!maxWidth && maxWidth !== 'none';
+  }).get(0);
+  const valuesOf = (...properties: string[]) =>
+    properties.flatMap(property => styles$.values.get(property) || []);
+
+  const spacing = rankByFrequency(
+    valuesOf('padding', 'margin', 'gap', 'padding-top', 'padding-bottom', 'margin-top', 'margin-bottom')
+      .flatMap(value => value.split(/\s+/))
+      .filter(token => SPACING_TOKEN.test(token)),
+    4
+  );
+  const gradients = rankByFrequency(
+    valuesOf('background', 'background-image').filter(value => value.includes('gradient(')),
+    5
+  );
+  const shadows = rankByFrequency(valuesOf('box-shadow'), 5);
+  const borderRadius = rankByFrequency(valuesOf('border-radius'), 5);
+  const gridGap = rankByFrequency(valuesOf('gap', 'grid-gap', 'column-gap'), 1)[0];
+
+  const styles = {
+    spacing: spacing.length ? spacing : ['0.5rem', '1rem', '1.5rem', '2rem'],
+    borderRadius: borderRadius.length ? borderRadius : ['0.25rem', '0.5rem', '0.75rem'],
+    shadows: shadows.length ? shadows : ['0 1px 3px rgba(0,0,0,0.1)'],
+    gradients,
+    buttonStyles,
+    headerStyles,
+    layout: {
+      maxWidth: (container && styles$.get(container, 'max-width')) || '1200px',
+      containerPadding: (container && (styles$.get(container, 'padding-left') || styles$.get(container, 'padding'))) || '1rem',
+      gridGap: gridGap || '1rem'
+    }
+  };
+
+  return {
+    colors: rankedColors.map(color => color.hex),
+    palette,
+    colorSources,
+    fonts: Array.from(fonts),
+    fontFaces: styles$.fontFaces,
+    images: Array.from(images),
+    headings: [],
+    logo,
+    styles,
+    headerBackgroundColor,
+    footerBackgroundColor,
+    footerLogo: resolveUrl(url, footerLogo),
+    sectionBackgroundColors: Array.from(sectionBackgroundColors),
+    brandMatch
+  };
+}
+
+export interface ExtractedAssets {
+  colors: string[];
+  palette: ColorPalette;
+  colorSources: Record<string, ColorSource>;
+  fonts: string[];
+  fontFaces: FontFace[];
+  images: string[];
+  headings: string[];
+  logo: string;
+  styles: {
+    spacing: string[];
+    borderRadius: string[];
+    shadows: string[];
+    gradients: string[];
+    buttonStyles: ButtonStyle[];
+    headerStyles: HeaderStyle[];
+    layout: {
+      maxWidth: string;
+      containerPadding: string;
+      gridGap: string;
+    };
+  };
+  headerBackgroundColor: string;
+  footerBackgroundColor: string;
+  footerLogo: string;
+  sectionBackgroundColors: string[];
+  brandMatch: BrandMatch | null;
+}
+
+// Assets that were chosen because they matched the requested brand
+interface BrandMatch {
+  brand: string;
+  logo: string | null;
+  colors: string[];
+  images: string[];
+}
+
+interface ButtonStyle {
+  backgroundColor: string;
+  color: string;
+  padding: string;
+  borderRadius: string;
+}
+
+interface HeaderStyle {
+  fontSize: string;
+  fontWeight: string;
+  color: string;
+  fontFamily: string;
+}
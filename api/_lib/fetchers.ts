@@ -0,0 +1,258 @@
+import type { Response as UndiciResponse } from 'undici';
+
+// Where the scrape endpoint gets its HTML and stylesheets from. Selected with
+// SCRAPER_BACKEND so self-hosted setups and tests can extract assets without
+// a ScrapingBee account.
+
+export type ScrapeFetcherId = 'scrapingbee' | 'fetch' | 'fixture';
+
+export interface ScrapeFetcher {
+  id: ScrapeFetcherId;
+  // The page itself
+  fetchPage(url: string): Promise<string>;
+  // Linked resources such as stylesheets, already resolved against the page
+  fetchText(url: string): Promise<string>;
+  // Images such as the logo, fetched the same way as fetchText
+  fetchBytes(url: string): Promise<Uint8Array>;
+}
+
+const REQUEST_TIMEOUT = 10000;
+
+// Some sites refuse requests without a browser-like user agent
+const USER_AGENT = 'Mozilla/5.0 (compatible; LandingPageGenerator/1.0)';
+
+const MAX_REDIRECTS = 5;
+
+// Ranges the scraper must never reach: loopback, private networks, link-local
+// (cloud metadata endpoints live there) and other non-public addresses
+const BLOCKED_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  // IPv4-mapped addresses would otherwise bypass the IPv4 ranges
+  ['::ffff:0:0', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+interface VettedAddress {
+  address: string;
+  family: 4 | 6;
+}
+
+// Throws unless the URL is http(s) and every address its host resolves to
+// is public. Returns the address to connect to. Node only.
+async function resolvePublicAddress(url: URL): Promise<VettedAddress> {
+  const { lookup } = await import('node:dns/promises');
+  const { BlockList, isIP } = await import('node:net');
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Refusing to fetch ${url.href}: only http and https URLs are allowed`);
+  }
+  const blocked = new BlockList();
+  BLOCKED_SUBNETS.forEach(([network, prefix, family]) => blocked.addSubnet(network, prefix, family));
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true });
+  if (!addresses.length) {
+    throw new Error(`Refusing to fetch ${url.href}: ${host} does not resolve`);
+  }
+  for (const { address, family } of addresses) {
+    if (blocked.check(address, family === 6 ? 'ipv6' : 'ipv4')) {
+      throw new Error(`Refusing to fetch ${url.href}: ${address} is not a public address`);
+    }
+  }
+  return { address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
+
+// Redirects are followed by hand so each hop is checked before it is
+// requested. The connection goes to the address that was checked rather than
+// resolving the host again, so a DNS answer that changes in between cannot
+// point it at an internal address. `read` takes the body of the final response.
+async function fetchDirect<T>(url: string, label: string, read: (response: UndiciResponse) => Promise<T>): Promise<T> {
+  const { Agent, fetch } = await import('undici');
+
+  let target = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    const { address, family } = await resolvePublicAddress(target);
+    const dispatcher = new Agent({
+      connect: {
+        lookup: (_hostname, options, callback) => {
+          if (options.all) callback(null, [{ address, family }]);
+          else callback(null, address, family);
+        },
+      },
+    });
+
+    try {
+      const response = await fetch(target, {
+        headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,text/css,*/*' },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+        dispatcher,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects === MAX_REDIRECTS) {
+          throw new Error(`${label} request failed: more than ${MAX_REDIRECTS} redirects`);
+        }
+        target = new URL(location, target);
+        continue;
+      }
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`${label} request failed: ${response.status} - ${body.slice(0, 200)}`);
+      }
+      return await read(response);
+    } finally {
+      await dispatcher.close();
+    }
+  }
+}
+
+const readText = (response: UndiciResponse) => response.text();
+const readBytes = async (response: UndiciResponse) => new Uint8Array(await response.arrayBuffer());
+
+// Goes through ScrapingBee, escalating to a premium proxy and then JS
+// rendering when the cheaper attempt is rejected. Stylesheets are fetched
+// directly; they are public and rarely behind the bot protection the page
+// itself needs ScrapingBee for.
+export function createScrapingBeeFetcher(apiKey: string): ScrapeFetcher {
+  return {
+    id: 'scrapingbee',
+    async fetchPage(url) {
+      const scrapingBeeParams = new URLSearchParams({
+        'api_key': apiKey,
+        'url': url,
+        'render_js': 'false',
+        'block_ads': 'true',
+        'block_resources': 'true',
+        'timeout': '10000'
+      });
+      const scrapingBeeUrl = () => `https://app.scrapingbee.com/api/v1/?${scrapingBeeParams.toString()}`;
+
+      console.log('[Scraping API] First attempt:', url);
+      let response = await fetch(scrapingBeeUrl());
+
+      if (!response.ok) {
+        console.log('[Scraping API] Retrying with premium proxy');
+        scrapingBeeParams.set('premium_proxy', 'true');
+        response = await fetch(scrapingBeeUrl());
+      }
+
+      if (!response.ok) {
+        console.log('[Scraping API] Retrying with JS rendering');
+        scrapingBeeParams.set('render_js', 'true');
+        response = await fetch(scrapingBeeUrl());
+      }
+
+      const html = await response.text();
+      if (!response.ok) {
+        throw new Error(`ScrapingBee API failed: ${response.status} - ${html}`);
+      }
+      return html;
+    },
+    fetchText: (url) => fetchDirect(url, 'Stylesheet', readText),
+    fetchBytes: (url) => fetchDirect(url, 'Image', readBytes),
+  };
+}
+
+// Plain HTTP requests from the server. Good enough for most marketing sites;
+// pages that need JavaScript to render come back mostly empty.
+export function createDirectFetcher(): ScrapeFetcher {
+  return {
+    id: 'fetch',
+    fetchPage(url) {
+      console.log('[Scraping API] Fetching directly:', url);
+      return fetchDirect(url, 'Page', readText);
+    },
+    fetchText: (url) => fetchDirect(url, 'Stylesheet', readText),
+    fetchBytes: (url) => fetchDirect(url, 'Image', readBytes),
+  };
+}
+
+// Reads saved pages from disk. file:// URLs are read as they are; any other
+// URL is mapped to <dir>/<host>/<path>, with index.html for directory paths,
+// so https://acme.com/ reads <dir>/acme.com/index.html and its /main.css
+// reads <dir>/acme.com/main.css. Either way the file must be inside <dir>.
+// Node only.
+export function createFixtureFetcher(dir: string): ScrapeFetcher {
+  const fixturePath = async (url: string) => {
+    const { realpath } = await import('node:fs/promises');
+    const { join, resolve, sep } = await import('node:path');
+    const { fileURLToPath } = await import('node:url');
+
+    const parsed = new URL(url);
+    const root = await realpath(resolve(dir));
+    let path: string;
+    if (parsed.protocol === 'file:') {
+      path = fileURLToPath(parsed);
+    } else {
+      const pathname = decodeURIComponent(parsed.pathname);
+      const relative = pathname.endsWith('/') ? `${pathname}index.html` : pathname;
+      path = join(root, parsed.hostname, relative);
+    }
+    // Keep ../, absolute file:// URLs and symlinks from escaping the fixtures
+    // directory
+    const file = await realpath(resolve(path)).catch(() => resolve(path));
+    if (!file.startsWith(root + sep)) {
+      throw new Error(`Fixture path escapes ${dir}: ${url}`);
+    }
+    return file;
+  };
+  const readFixture = async (url: string) => {
+    const { readFile } = await import('node:fs/promises');
+    return readFile(await fixturePath(url), 'utf8');
+  };
+
+  return {
+    id: 'fixture',
+    fetchPage(url) {
+      console.log('[Scraping API] Reading fixture:', url);
+      return readFixture(url);
+    },
+    fetchText: readFixture,
+    async fetchBytes(url) {
+      const { readFile } = await import('node:fs/promises');
+      return readFile(await fixturePath(url));
+    },
+  };
+}
+
+export function getScrapeFetcher(): ScrapeFetcher {
+  const apiKey = process.env.VITE_SCRAPINGBEE_API_KEY;
+  // Without an explicit choice, use ScrapingBee when it is configured
+  const backend = process.env.SCRAPER_BACKEND || (apiKey ? 'scrapingbee' : 'fetch');
+
+  switch (backend) {
+    case 'scrapingbee':
+      if (!apiKey) {
+        throw new Error('ScrapingBee API key is not configured');
+      }
+      return createScrapingBeeFetcher(apiKey);
+    case 'fetch':
+      return createDirectFetcher();
+    case 'fixture':
+      if (!process.env.SCRAPER_FIXTURES_DIR) {
+        throw new Error('SCRAPER_FIXTURES_DIR is not configured');
+      }
+      return createFixtureFetcher(process.env.SCRAPER_FIXTURES_DIR);
+    default:
+      throw new Error(`Unknown scraper backend "${backend}"`);
+  }
+}
@@ -0,0 +1,27 @@
+import ColorThief from 'colorthief';
+import { normalizeColor } from '../../src/lib/palette';
+
+// Reads the logo's colours on the server. In the browser the logo has to be
+// drawn on a canvas, which most hosts' missing CORS headers make unreadable.
+// Node only.
+
+const LOGO_COLOR_COUNT = 5;
+
+// Dominant colours of a logo, most prominent first. Returns an empty list
+// when the image cannot be fetched or decoded; logo colours are a bonus,
+// never a reason to fail a scrape.
+export async function extractLogoColors(
+  url: string,
+  fetchBytes: (url: string) => Promise<Uint8Array>
+): Promise<string[]> {
+  try {
+    const image = Buffer.from(await fetchBytes(url));
+    const palette = (await ColorThief.getPalette(image, LOGO_COLOR_COUNT)) || [];
+    return palette
+      .map(([r, g, b]) => normalizeColor(`rgb(${r}, ${g}, ${b})`))
+      .filter((hex): hex is string => !!hex);
+  } catch (error) {
+    console.error(`[Scraping API] Could not read logo colors from ${url}:`, error);
+    return [];
+  }
+}
@@ -1,7 +1,11 @@
 import express, { Request, Response, NextFunction } from 'express';
 import scrapeRouter from './src/api/scrape.js';
+import generateRouter from './src/api/generate.js';
+import publicPagesRouter from './src/api/publicPages.js';
+import deployRouter from './src/api/deploy.js';
+import { createMockWebflowRouter } from './src/api/mockWebflow.js';
+import { getConfiguredProviders, listAvailableModels } from './src/api/llm.js';
 import cors from 'cors';
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -9,8 +13,8 @@ dotenv.config();
 const app = express();
 const port = process.env.PORT || 3000;
 
-// Add body parsing middleware
-app.use(express.json());
+// Add body parsing middleware (refinement requests carry a whole page)
+app.use(express.json({ limit: '2mb' }));
 
 // Add request logging
 app.use((req, res, next) => {
@@ -27,18 +31,30 @@ app.use(cors({
 // Mount the scraping endpoint under /api/scrape
 app.use('/api/scrape', scrapeRouter);
 
-// Add a GET endpoint to fetch available OpenAI models
+// Mount the authenticated generation endpoint under /api/generate
+app.use('/api/generate', generateRouter);
+
+// Mount the authenticated deployment endpoint under /api/deploy
+app.use('/api/deploy', deployRouter);
+
+// Local stand-in for the Webflow API; set WEBFLOW_API_BASE_URL to
+// http://localhost:3000/mock/webflow/v2 to deploy against it
+if (process.env.MOCK_WEBFLOW === 'true') {
+  app.use('/mock/webflow/v2', createMockWebflowRouter());
+}
+
+// Serve published pages publicly under /p/:slug
+app.use('/p', publicPagesRouter);
+
+// Add a GET endpoint to fetch models from every configured LLM provider
 app.get('/api/models', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const apiKey = process.env.VITE_OPENAI_API_KEY;
-    if (!apiKey) {
-      res.status(500).json({ error: 'VITE_OPENAI_API_KEY is not set in the environment' });
+    if (getConfiguredProviders().length === 0) {
+      res.status(500).json({ error: 'No LLM provider is configured in the environment' });
       return;
     }
-    const openai = new OpenAI({ apiKey, dangerouslyAllowBrowser: false });
-    const response = await openai.models.list();
-    const modelIds = response.data.map(model => model.id);
-    res.json({ models: modelIds });
+    const models = await listAvailableModels();
+    res.json({ models });
   } catch (error) {
     console.error('Failed to fetch models:', error);
     next(error);
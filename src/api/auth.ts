@@ -0,0 +1,60 @@
+import type { Request, Response, NextFunction } from 'express';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let supabaseClient: SupabaseClient | null = null;
+
+// Anonymous (anon key) client shared by the server routes
+export function getSupabaseClient() {
+  if (!supabaseClient) {
+    const supabaseUrl = process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Supabase is not configured on the server');
+    }
+    supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false }
+    });
+  }
+  return supabaseClient;
+}
+
+// Acts as the signed-in user, so row level security applies to everything
+// the server reads and writes on their behalf
+export function getUserSupabaseClient(accessToken: string) {
+  const supabaseUrl = process.env.VITE_SUPABASE_URL;
+  const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase is not configured on the server');
+  }
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+}
+
+// Verifies the Supabase access token sent by the browser and exposes the
+// user as res.locals.user (and the token as res.locals.accessToken) for the
+// route handlers behind it
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+
+  if (!token) {
+    res.status(401).json({ error: 'Missing access token' });
+    return;
+  }
+
+  try {
+    const { data, error } = await getSupabaseClient().auth.getUser(token);
+    if (error || !data.user) {
+      res.status(401).json({ error: 'Invalid or expired session' });
+      return;
+    }
+    res.locals.user = data.user;
+    res.locals.accessToken = token;
+    next();
+  } catch (error) {
+    console.error('[Auth] Failed to verify session:', error);
+    next(error);
+  }
+}
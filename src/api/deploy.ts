@@ -0,0 +1,143 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { getUserSupabaseClient, requireAuth } from './auth';
+import { getDeployTarget, type DeployTarget } from './deployTargets';
+import type { Deployment, Project, Version } from '../types/database';
+
+const router = express.Router();
+
+interface DeployRequestBody {
+  projectId?: string;
+}
+
+// Pushes the project's current version to its configured target and records
+// the attempt in deployments. Responds with the finished deployment row.
+router.post('/', requireAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Progress of the attempt, and how to close its record once there is one
+  const log: string[] = [];
+  let finish: ((updates: Partial<Deployment>) => Promise<Deployment>) | null = null;
+
+  try {
+    const { projectId } = req.body as DeployRequestBody;
+    if (typeof projectId !== 'string' || !projectId) {
+      res.status(400).json({ error: 'Missing projectId' });
+      return;
+    }
+
+    const supabase = getUserSupabaseClient(res.locals.accessToken);
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', projectId)
+      .maybeSingle<Project>();
+    if (projectError || !project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const deployment = project.settings?.deployment;
+    if (!deployment || (deployment.platform === 'custom' && (!deployment.settings || !('target' in deployment.settings)))) {
+      res.status(400).json({ error: 'This project has no deployment target configured' });
+      return;
+    }
+
+    let target: DeployTarget;
+    try {
+      target = getDeployTarget(deployment.platform);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown deployment target' });
+      return;
+    }
+
+    const { data: version } = await supabase
+      .from('versions')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('is_current', { ascending: false })
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle<Version>();
+    if (!version?.html_content) {
+      res.status(400).json({ error: 'This project has no version to deploy yet' });
+      return;
+    }
+
+    const { data: record, error: recordError } = await supabase
+      .from('deployments')
+      .insert({ project_id: projectId, version_id: version.id, platform: deployment.platform })
+      .select()
+      .single<Deployment>();
+    if (recordError || !record) {
+      console.error('[Deploy] Failed to record deployment:', recordError);
+      res.status(500).json({ error: 'Failed to record deployment' });
+      return;
+    }
+
+    console.log(`[Deploy] ${deployment.platform} deployment of project ${projectId} by user ${res.locals.user.id}`);
+    finish = async (updates: Partial<Deployment>) => {
+      const { data, error } = await supabase
+        .from('deployments')
+        .update({ ...updates, log, finished_at: new Date().toISOString() })
+        .eq('id', record.id)
+        .select()
+        .single<Deployment>();
+      if (error) {
+        console.error('[Deploy] Failed to update deployment record:', error);
+      }
+      return data || { ...record, ...updates, log };
+    };
+
+    try {
+      const result = await target.deploy({
+        project,
+        version,
+        // Stored JSON, so each target validates it itself
+        settings: deployment.settings || {},
+        log: message => {
+          log.push(message);
+          console.log(`[Deploy] ${message}`);
+        },
+      });
+
+      if (result.settings) {
+        const { error } = await supabase
+          .from('projects')
+          .update({
+            settings: { ...project.settings, deployment: { ...deployment, settings: result.settings } },
+          })
+          .eq('id', projectId);
+        if (error) {
+          console.error('[Deploy] Failed to store deployment settings:', error);
+        }
+      }
+
+      res.json(await finish({
+        status: 'success',
+        external_id: result.externalId || null,
+        url: result.url || null,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Deployment failed';
+      console.error('[Deploy] Deployment failed:', error);
+      log.push(message);
+      res.status(502).json({ ...(await finish({ status: 'failed', error: message })), error: message });
+    }
+  } catch (error) {
+    // Supabase calls reject on network errors; an open record is closed as failed
+    const message = error instanceof Error ? error.message : 'Deployment failed';
+    console.error('[Deploy] Request failed:', error);
+    if (finish) {
+      log.push(message);
+      await finish({ status: 'failed', error: message }).catch(finishError =>
+        console.error('[Deploy] Failed to update deployment record:', finishError)
+      );
+    }
+    if (res.headersSent) {
+      next(error);
+    } else {
+      res.status(500).json({ error: message });
+    }
+  }
+});
+
+export default router;
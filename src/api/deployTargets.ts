@@ -0,0 +1,349 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { slugify } from '../lib/slug';
+import { putObject } from './s3';
+import type {
+  CustomDeploymentSettings,
+  DeploymentPlatform,
+  Project,
+  Version,
+  WebflowDeploymentSettings,
+} from '../types/database';
+
+export interface DeployRequest {
+  project: Project;
+  version: Version;
+  // The project's stored settings for this target, unvalidated
+  settings: Record<string, unknown>;
+  // Progress messages, kept in the deployment's log
+  log: (message: string) => void;
+}
+
+export interface DeployResult {
+  externalId?: string;
+  url?: string;
+  // Settings to store back on the project (e.g. the id of a created item)
+  settings?: Record<string, unknown>;
+}
+
+export interface DeployTarget {
+  platform: DeploymentPlatform;
+  deploy(request: DeployRequest): Promise<DeployResult>;
+}
+
+const REQUEST_TIMEOUT = 30000;
+
+const targets = new Map<DeploymentPlatform, DeployTarget>();
+
+// Comma-separated server setting, e.g. DEPLOY_S3_ALLOWED_BUCKETS
+function readList(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Webflow site, collection and item IDs. Checked before they are put in API
+// paths, where "../" or "?" would reach other resources with the token.
+const WEBFLOW_ID = /^[0-9a-f]{24}$/i;
+
+function parseWebflowSettings(settings: Record<string, unknown>): WebflowDeploymentSettings {
+  const text = (key: string) => {
+    const value = settings[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  const siteId = text('site_id');
+  const collectionId = text('collection_id');
+  if (!siteId || !collectionId) {
+    throw new Error('Webflow deployment needs a site ID and a collection ID');
+  }
+  const itemId = text('item_id');
+  for (const [label, id] of [['site', siteId], ['collection', collectionId], ['item', itemId]]) {
+    if (id !== undefined && !WEBFLOW_ID.test(id)) {
+      throw new Error(`Webflow ${label} ID must be 24 hexadecimal characters`);
+    }
+  }
+  return {
+    site_id: siteId,
+    collection_id: collectionId,
+    html_field: text('html_field'),
+    item_id: itemId,
+  };
+}
+
+// Pushes the page into a CMS collection item through the Webflow Data API
+// (v2) and publishes that item. baseURL points at a local mock in
+// development (see mockWebflow.ts).
+function createWebflowTarget(options: { token: string; baseURL: string }): DeployTarget {
+  // Resolves to null for 404s when allowNotFound is set; throws otherwise
+  const request = async <T>(
+    method: string,
+    resource: string,
+    body?: unknown,
+    allowNotFound = false
+  ): Promise<T | null> => {
+    const response = await fetch(`${options.baseURL}${resource}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${options.token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    if (response.status === 404 && allowNotFound) {
+      return null;
+    }
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 300);
+      throw new Error(`Webflow ${method} ${resource} failed: ${response.status} ${detail}`);
+    }
+    return response.status === 204 ? null : ((await response.json()) as T);
+  };
+
+  return {
+    platform: 'webflow',
+    async deploy({ project, version, settings, log }) {
+      const { site_id, collection_id, html_field = 'page-html', item_id } = parseWebflowSettings(settings);
+      const site = encodeURIComponent(site_id);
+      const collection = encodeURIComponent(collection_id);
+
+      // Also checks both IDs before anything is written
+      const [siteInfo, collectionInfo] = await Promise.all([
+        request<{ shortName?: string; customDomains?: { url: string }[] }>('GET', `/sites/${site}`),
+        request<{ slug?: string }>('GET', `/collections/${collection}`),
+      ]);
+
+      const itemSlug = project.slug || slugify(project.name) || `page-${project.id.slice(0, 8)}`;
+      const item = {
+        isArchived: false,
+        isDraft: false,
+        fieldData: {
+          name: project.name,
+          slug: itemSlug,
+          [html_field]: version.html_content || '',
+        },
+      };
+
+      let saved: { id: string } | null = null;
+      if (item_id) {
+        log(`Updating item ${item_id} in collection ${collection_id}`);
+        saved = await request<{ id: string }>(
+          'PATCH',
+          `/collections/${collection}/items/${encodeURIComponent(item_id)}`,
+          item,
+          true
+        );
+        if (!saved) {
+          log(`Item ${item_id} no longer exists; creating a new one`);
+        }
+      }
+      if (!saved) {
+        log(`Creating item in collection ${collection_id}`);
+        saved = await request<{ id: string }>('POST', `/collections/${collection}/items`, item);
+      }
+      if (!saved?.id) {
+        throw new Error('Webflow did not return the saved item');
+      }
+
+      log(`Publishing item ${saved.id}`);
+      await request('POST', `/collections/${collection}/items/publish`, { itemIds: [saved.id] });
+
+      const host = siteInfo?.customDomains?.[0]?.url || (siteInfo?.shortName && `${siteInfo.shortName}.webflow.io`);
+      const url = host && collectionInfo?.slug ? `https://${host}/${collectionInfo.slug}/${itemSlug}` : undefined;
+      log(url ? `Live at ${url}` : 'Published');
+
+      return {
+        externalId: saved.id,
+        url,
+        settings: { ...settings, item_id: saved.id },
+      };
+    },
+  };
+}
+
+function parseCustomSettings(settings: Record<string, unknown>): CustomDeploymentSettings {
+  const text = (key: string) => {
+    const value = settings[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : '';
+  };
+  switch (settings.target) {
+    case 'filesystem':
+      if (!text('directory')) throw new Error('Enter the folder to deploy to');
+      return { target: 'filesystem', directory: text('directory') };
+    case 's3':
+      if (!text('bucket')) throw new Error('Enter the bucket to deploy to');
+      return { target: 's3', bucket: text('bucket'), prefix: text('prefix') || undefined };
+    case 'hook':
+      if (!text('url')) throw new Error('Enter the build hook URL');
+      return { target: 'hook', url: text('url') };
+    default:
+      throw new Error('Choose where to deploy this project');
+  }
+}
+
+// Writes index.html into a folder under DEPLOY_FILESYSTEM_ROOT, e.g. one a
+// web server serves; DEPLOY_FILESYSTEM_BASE_URL is where that root is served.
+// Each project gets its own subfolder, named after its ID, so one project
+// can't overwrite another's pages.
+async function deployToDirectory(directory: string, { project, version, log }: DeployRequest): Promise<DeployResult> {
+  const root = process.env.DEPLOY_FILESYSTEM_ROOT;
+  if (!root) {
+    throw new Error('Folder deployments are not configured on the server');
+  }
+  const projectRoot = path.resolve(root, project.id);
+  const target = path.resolve(projectRoot, directory);
+  // The folder comes from project settings and must not escape the project's subfolder
+  const relative = path.relative(projectRoot, target);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error("The deployment folder must be inside the project's folder");
+  }
+
+  await mkdir(target, { recursive: true });
+  const file = path.join(target, 'index.html');
+  log(`Writing ${file}`);
+  await writeFile(file, version.html_content || '', 'utf8');
+
+  const baseUrl = process.env.DEPLOY_FILESYSTEM_BASE_URL;
+  const urlPath = [project.id, ...relative.split(path.sep).filter(Boolean)].join('/');
+  return { url: baseUrl ? `${baseUrl.replace(/\/+$/, '')}/${urlPath}/` : undefined };
+}
+
+// Uploads index.html to a bucket on the server's S3-compatible endpoint. The
+// server's credentials may reach other buckets too, so only the ones listed
+// in DEPLOY_S3_ALLOWED_BUCKETS can be deployed to.
+async function deployToBucket(
+  bucket: string,
+  prefix: string | undefined,
+  { version, log }: DeployRequest
+): Promise<DeployResult> {
+  const { DEPLOY_S3_ENDPOINT, DEPLOY_S3_ACCESS_KEY_ID, DEPLOY_S3_SECRET_ACCESS_KEY } = process.env;
+  if (!DEPLOY_S3_ENDPOINT || !DEPLOY_S3_ACCESS_KEY_ID || !DEPLOY_S3_SECRET_ACCESS_KEY) {
+    throw new Error('Bucket deployments are not configured on the server');
+  }
+  if (!readList('DEPLOY_S3_ALLOWED_BUCKETS').includes(bucket.toLowerCase())) {
+    throw new Error(`Deploying to bucket "${bucket}" is not allowed on this server`);
+  }
+  // Dot segments would be resolved away in the URL and could leave the bucket
+  if (prefix && (!/^[\w.\-/]+$/.test(prefix) || prefix.split('/').some(part => part === '.' || part === '..'))) {
+    throw new Error('The key prefix may only contain letters, digits, ".", "-", "_" and "/"');
+  }
+
+  const key = [prefix?.replace(/^\/+|\/+$/g, ''), 'index.html'].filter(Boolean).join('/');
+  log(`Uploading ${key} to bucket ${bucket}`);
+  const url = await putObject(
+    {
+      endpoint: DEPLOY_S3_ENDPOINT,
+      region: process.env.DEPLOY_S3_REGION || 'us-east-1',
+      accessKeyId: DEPLOY_S3_ACCESS_KEY_ID,
+      secretAccessKey: DEPLOY_S3_SECRET_ACCESS_KEY,
+    },
+    bucket,
+    key,
+    version.html_content || '',
+    'text/html; charset=utf-8'
+  );
+
+  const publicUrl = process.env.DEPLOY_S3_PUBLIC_URL;
+  return {
+    externalId: `${bucket}/${key}`,
+    url: publicUrl ? `${publicUrl.replace(/\/+$/, '')}/${bucket}/${key}` : url.href,
+  };
+}
+
+// POSTs the page to a build hook. Netlify and similar hosts start a build;
+// the JSON body is available to it (INCOMING_HOOK_BODY on Netlify). The
+// server makes the request, so only hosts in DEPLOY_HOOK_ALLOWED_HOSTS can be
+// called and redirects are not followed.
+async function triggerBuildHook(hookUrl: string, { project, version, log }: DeployRequest): Promise<DeployResult> {
+  let url: URL;
+  try {
+    url = new URL(hookUrl);
+  } catch {
+    throw new Error('The build hook URL is not valid');
+  }
+  // The server makes this request, so plain http (often internal) is opt-in
+  const allowHttp = process.env.DEPLOY_HOOK_ALLOW_HTTP === 'true';
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    throw new Error('Build hooks must use https');
+  }
+  if (!readList('DEPLOY_HOOK_ALLOWED_HOSTS').includes(url.hostname.toLowerCase())) {
+    throw new Error(`Build hooks on ${url.hostname} are not allowed on this server`);
+  }
+
+  log(`Calling build hook ${url.origin}${url.pathname}`);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      project_id: project.id,
+      project_name: project.name,
+      version_id: version.id,
+      version_number: version.version_number,
+      html: version.html_content || '',
+    }),
+    redirect: 'error',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+  if (!response.ok) {
+    const detail = (await response.text()).slice(0, 300);
+    throw new Error(`Build hook failed: ${response.status} ${detail}`);
+  }
+  log(`Build hook accepted the request (${response.status})`);
+  return {};
+}
+
+// The 'custom' platform: one of the generic targets above, picked by the
+// project's settings. Each checks its own server configuration when used.
+function createCustomTarget(): DeployTarget {
+  return {
+    platform: 'custom',
+    async deploy(request) {
+      const settings = parseCustomSettings(request.settings);
+      request.log(`Deploying Version ${request.version.version_number} to ${settings.target}`);
+      switch (settings.target) {
+        case 'filesystem':
+          return deployToDirectory(settings.directory, request);
+        case 's3':
+          return deployToBucket(settings.bucket, settings.prefix, request);
+        case 'hook':
+          return triggerBuildHook(settings.url, request);
+      }
+    },
+  };
+}
+
+function createTarget(platform: DeploymentPlatform): DeployTarget | null {
+  switch (platform) {
+    case 'webflow':
+      return process.env.WEBFLOW_API_TOKEN
+        ? createWebflowTarget({
+            token: process.env.WEBFLOW_API_TOKEN,
+            baseURL: process.env.WEBFLOW_API_BASE_URL || 'https://api.webflow.com/v2',
+          })
+        : null;
+    case 'custom':
+      return createCustomTarget();
+    default:
+      return null;
+  }
+}
+
+export function getDeployTarget(platform: DeploymentPlatform): DeployTarget {
+  let target = targets.get(platform);
+  if (!target) {
+    const created = createTarget(platform);
+    if (!created) {
+      throw new Error(`Deployment to "${platform}" is not configured on the server`);
+    }
+    target = created;
+    targets.set(platform, target);
+  }
+  return target;
+}
+
+// Lets tests swap in their own target without env config
+export function registerDeployTarget(target: DeployTarget) {
+  targets.set(target.platform, target);
+}
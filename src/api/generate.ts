@@ -0,0 +1,515 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { requireAuth } from './auth';
+import { DEFAULT_MODEL, getProvider, isModelAvailable, waitForRateLimit, type ChatMessage } from './llm';
+import {
+  buildContinuationRequest,
+  buildFragmentPrompt,
+  buildLandingPagePrompt,
+  buildRefinementRequest,
+  buildRefinementSystemPrompt,
+  getFallbackTemplate,
+  type AIPromptResponse,
+  type ExtendedWebsiteStyle,
+  type FragmentResponse,
+  type GenerateStreamEvent,
+  type OutputIssue,
+} from '../lib/prompt';
+import { checkDocument, cleanContinuation, extractDocument, isTruncated, joinContinuation } from './pageOutput';
+import { normalizeMarketingContent } from '../lib/content';
+import type { MarketingContent } from '../types/content';
+import type { ModelSelection, RefinementTurn } from '../types/database';
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY = 5000; // 5 seconds
+const MAX_COMPLETION_TOKENS = 8000;
+// Follow-up requests for a page cut off at the token limit
+const MAX_CONTINUATIONS = 2;
+
+async function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Runs a completion, retrying transient provider failures with backoff.
+// Throws the last error once retries are exhausted.
+async function completeWithRetries(
+  messages: ChatMessage[],
+  selection: ModelSelection
+): Promise<string> {
+  let retries = 0;
+  let lastError: Error | null = null;
+
+  while (retries < MAX_RETRIES) {
+    try {
+      const provider = getProvider(selection.provider);
+      await waitForRateLimit(provider);
+
+      const content = await provider.complete({
+        model: selection.model,
+        messages,
+        maxTokens: MAX_COMPLETION_TOKENS,
+      });
+
+      if (!content) {
+        throw new Error('Failed to generate landing page content');
+      }
+
+      return content;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error('Unknown error');
+
+      // Check if the error is retryable
+      const isRetryable =
+        lastError.message.includes('rate_limit') ||
+        lastError.message.includes('timeout') ||
+        lastError.message.includes('network') ||
+        lastError.message.includes('internal_error');
+
+      if (!isRetryable) {
+        break;
+      }
+
+      retries++;
+      if (retries < MAX_RETRIES) {
+        await delay(RETRY_DELAY * retries); // Exponential backoff
+        continue;
+      }
+    }
+  }
+
+  throw lastError || new Error('Failed to generate content');
+}
+
+// Turns a full-page completion into a usable document: strips fences and
+// prose, asks the model to finish a cut-off page and adds missing skeleton
+// tags. `messages` is the conversation that produced `raw`. Throws when the
+// completion contains no HTML page.
+async function processPageOutput(
+  raw: string,
+  messages: ChatMessage[],
+  selection: ModelSelection
+): Promise<{ html: string; issues: OutputIssue[] }> {
+  const extracted = extractDocument(raw);
+  if (!extracted) {
+    throw new Error('The model did not return an HTML page');
+  }
+  const issues = extracted.issues;
+  let html = extracted.html;
+
+  if (isTruncated(html)) {
+    let continuations = 0;
+    try {
+      while (isTruncated(html) && continuations < MAX_CONTINUATIONS) {
+        continuations++;
+        console.log(`[Generate] Output truncated, requesting continuation ${continuations}`);
+        const next = await completeWithRetries(
+          [
+            ...messages,
+            { role: "assistant", content: html },
+            { role: "user", content: buildContinuationRequest() },
+          ],
+          selection
+        );
+        html = joinContinuation(html, cleanContinuation(next));
+      }
+    } catch (error) {
+      console.error('[Generate] Continuation failed:', error);
+    }
+    // Text after </html> in a continuation
+    html = extractDocument(html)?.html ?? html;
+    const complete = !isTruncated(html);
+    issues.push({
+      code: 'truncated',
+      message: complete
+        ? 'The page was cut off at the length limit and has been completed'
+        : 'The page was cut off at the length limit; the end of the page may be missing',
+      fixed: complete,
+    });
+  }
+
+  const checked = checkDocument(html);
+  return { html: checked.html, issues: [...issues, ...checked.issues] };
+}
+
+export async function generateLandingPage(
+  prompt: string,
+  style?: ExtendedWebsiteStyle,
+  selection: ModelSelection = DEFAULT_MODEL,
+  content?: MarketingContent
+): Promise<AIPromptResponse> {
+  try {
+    const messages: ChatMessage[] = [
+      { role: "user", content: buildLandingPagePrompt(prompt, style, content) }
+    ];
+    const raw = await completeWithRetries(messages, selection);
+    const { html, issues } = await processPageOutput(raw, messages, selection);
+    return {
+      html,
+      css: '',
+      issues,
+    };
+  } catch (error) {
+    // Return fallback template with appropriate error message
+    return {
+      html: getFallbackTemplate(style || {}),
+      css: '',
+      error: error instanceof Error ? error.message : 'Failed to generate content'
+    };
+  }
+}
+
+// Models sometimes wrap a fragment in a markdown fence despite being asked not to
+function stripCodeFence(text: string): string {
+  const fenced = /^\s*```[a-z]*\n([\s\S]*?)\n?```\s*$/i.exec(text);
+  return (fenced ? fenced[1] : text).trim();
+}
+
+// Rewrites one block of a page. On failure the original fragment is returned
+// alongside the error so the caller can leave the document untouched.
+export async function regenerateFragment(
+  fragment: string,
+  instruction: string,
+  style?: ExtendedWebsiteStyle,
+  selection: ModelSelection = DEFAULT_MODEL
+): Promise<FragmentResponse> {
+  try {
+    const html = await completeWithRetries(
+      [{ role: "user", content: buildFragmentPrompt(fragment, instruction, style) }],
+      selection
+    );
+    return { html: stripCodeFence(html) };
+  } catch (error) {
+    return {
+      html: fragment,
+      error: error instanceof Error ? error.message : 'Failed to regenerate section'
+    };
+  }
+}
+
+// Applies one chat instruction to the current page. Earlier instructions are
+// replayed as conversation turns; only the latest message carries the HTML.
+// On failure the page comes back unchanged alongside the error.
+export async function refineLandingPage(
+  html: string,
+  history: string[],
+  instruction: string,
+  style?: ExtendedWebsiteStyle,
+  selection: ModelSelection = DEFAULT_MODEL
+): Promise<AIPromptResponse> {
+  try {
+    const messages: ChatMessage[] = [
+      { role: "system", content: buildRefinementSystemPrompt(style) },
+      ...history.flatMap((previous): ChatMessage[] => [
+        { role: "user", content: previous },
+        { role: "assistant", content: 'Applied.' },
+      ]),
+      { role: "user", content: buildRefinementRequest(html, instruction) },
+    ];
+    const raw = await completeWithRetries(messages, selection);
+    const refined = await processPageOutput(raw, messages, selection);
+    return {
+      html: refined.html,
+      css: '',
+      issues: refined.issues,
+    };
+  } catch (error) {
+    return {
+      html,
+      css: '',
+      error: error instanceof Error ? error.message : 'Failed to refine landing page'
+    };
+  }
+}
+
+// Yields the completion as it arrives. Streams are not retried: once chunks
+// have reached the browser a restart would duplicate content.
+export async function* streamLandingPage(
+  prompt: string,
+  style?: ExtendedWebsiteStyle,
+  selection: ModelSelection = DEFAULT_MODEL,
+  signal?: AbortSignal,
+  content?: MarketingContent
+): AsyncGenerator<string> {
+  const provider = getProvider(selection.provider);
+  await waitForRateLimit(provider);
+
+  yield* provider.stream({
+    model: selection.model,
+    messages: [
+      { role: "user", content: buildLandingPagePrompt(prompt, style, content) }
+    ],
+    maxTokens: MAX_COMPLETION_TOKENS,
+    signal,
+  });
+}
+
+function sendEvent(res: Response, event: GenerateStreamEvent) {
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+interface GenerateRequestBody {
+  prompt?: unknown;
+  style?: unknown;
+  model?: unknown;
+  content?: unknown;
+}
+
+interface FragmentRequestBody {
+  fragment?: unknown;
+  instruction?: unknown;
+  style?: unknown;
+  model?: unknown;
+}
+
+interface RefineRequestBody {
+  html?: unknown;
+  history?: unknown;
+  instruction?: unknown;
+  style?: unknown;
+  model?: unknown;
+}
+
+// Missing content is fine; content that is present must be valid. Sends the
+// 400 and returns null otherwise.
+function readContent(value: unknown, res: Response): MarketingContent | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  const content = normalizeMarketingContent(value);
+  if (!content) {
+    res.status(400).json({ error: 'content must be marketing content' });
+  }
+  return content;
+}
+
+// A missing model means the default; any other must be one the server
+// lists. Sends the 400 and returns null otherwise.
+async function readModel(value: unknown, res: Response): Promise<ModelSelection | null> {
+  if (value === undefined || value === null) return DEFAULT_MODEL;
+  const candidate = value as Partial<ModelSelection>;
+  if (
+    typeof value !== 'object' ||
+    typeof candidate.provider !== 'string' ||
+    typeof candidate.model !== 'string' ||
+    !(await isModelAvailable({ provider: candidate.provider, model: candidate.model }))
+  ) {
+    res.status(400).json({ error: 'model must be one of the models the server offers' });
+    return null;
+  }
+  return { provider: candidate.provider, model: candidate.model };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Earlier turns of a refinement conversation, as the editor keeps them
+function isRefinementHistory(value: unknown): value is Pick<RefinementTurn, 'instruction' | 'base_version_id'>[] {
+  return Array.isArray(value) && value.every(turn =>
+    isRecord(turn) && typeof turn.instruction === 'string' && typeof turn.base_version_id === 'string'
+  );
+}
+
+// Every field the prompts read is optional, but one that is present must have
+// the shape the prompt builders expect: they call join() and map() on lists
+// and interpolate the rest
+function isWebsiteStyle(value: unknown): value is ExtendedWebsiteStyle {
+  const absent = (field: unknown) => field === undefined || field === null;
+  const optional = (field: unknown, check: (field: unknown) => boolean) => absent(field) || check(field);
+  const isText = (field: unknown) => typeof field === 'string';
+  const isTextRecord = (field: unknown) => isRecord(field) && Object.values(field).every(isText);
+  const isRecordList = (field: unknown, check: (item: Record<string, unknown>) => boolean) =>
+    Array.isArray(field) && field.every(item => isRecord(item) && check(item));
+
+  if (!isRecord(value)) return false;
+  const { styles } = value;
+  return (
+    ['colors', 'fonts', 'images', 'headings', 'sectionBackgroundColors'].every(key => optional(value[key], isStringList)) &&
+    ['logo', 'metaDescription', 'headerBackgroundColor', 'footerBackgroundColor', 'footerLogo'].every(key =>
+      optional(value[key], isText)
+    ) &&
+    optional(value.palette, isTextRecord) &&
+    optional(value.colorSources, isTextRecord) &&
+    optional(value.fontFaces, field =>
+      isRecordList(field, face => isText(face.family) && isStringList(face.src))
+    ) &&
+    optional(styles, field => {
+      if (!isRecord(field)) return false;
+      return (
+        optional(field.layout, isTextRecord) &&
+        optional(field.buttonStyles, list => isRecordList(list, isTextRecord)) &&
+        optional(field.headerStyles, list => isRecordList(list, isTextRecord)) &&
+        ['gradients', 'shadows', 'borderRadius'].every(key => optional(field[key], isStringList))
+      );
+    })
+  );
+}
+
+// A missing style guide is fine; one that is present must be usable. Sends
+// the 400 and returns null otherwise.
+function readStyle(value: unknown, res: Response): ExtendedWebsiteStyle | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  if (!isWebsiteStyle(value)) {
+    res.status(400).json({ error: 'style must be a style guide' });
+    return null;
+  }
+  return value;
+}
+
+const router = express.Router();
+
+router.post('/', requireAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { prompt, style, model, content } = req.body as GenerateRequestBody;
+
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      res.status(400).json({ error: 'Missing prompt' });
+      return;
+    }
+    const styleGuide = readStyle(style, res);
+    if (styleGuide === null) return;
+    const marketingContent = readContent(content, res);
+    if (marketingContent === null) return;
+    const selection = await readModel(model, res);
+    if (!selection) return;
+
+    console.log(`[Generate] Request from user ${res.locals.user.id}`);
+    const result = await generateLandingPage(prompt, styleGuide, selection, marketingContent);
+    res.json(result);
+  } catch (error) {
+    console.error('[Generate] Request failed:', error);
+    next(error);
+  }
+});
+
+// Server-sent events variant used by the editor for live preview
+router.post('/stream', requireAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { prompt, style, model, content } = req.body as GenerateRequestBody;
+
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      res.status(400).json({ error: 'Missing prompt' });
+      return;
+    }
+    const styleGuide = readStyle(style, res);
+    if (styleGuide === null) return;
+    const marketingContent = readContent(content, res);
+    if (marketingContent === null) return;
+    const selection = await readModel(model, res);
+    if (!selection) return;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    // Stop paying for tokens as soon as the browser cancels
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    console.log(`[Generate] Streaming request from user ${res.locals.user.id}`);
+    let html = '';
+    try {
+      for await (const chunk of streamLandingPage(prompt, styleGuide, selection, controller.signal, marketingContent)) {
+        html += chunk;
+        sendEvent(res, { type: 'chunk', content: chunk });
+      }
+      if (!html) {
+        throw new Error('Failed to generate landing page content');
+      }
+      // The preview showed the raw stream; the saved page is the cleaned one
+      const processed = await processPageOutput(
+        html,
+        [{ role: "user", content: buildLandingPagePrompt(prompt, styleGuide, marketingContent) }],
+        selection
+      );
+      sendEvent(res, { type: 'done', html: processed.html, css: '', issues: processed.issues });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('[Generate] Stream cancelled by client');
+        return;
+      }
+      console.error('[Generate] Stream failed:', error);
+      sendEvent(res, {
+        type: 'done',
+        html: getFallbackTemplate(styleGuide || {}),
+        css: '',
+        error: error instanceof Error ? error.message : 'Failed to generate content',
+      });
+    }
+    res.end();
+  } catch (error) {
+    // Headers may already be out; Express then closes the connection
+    console.error('[Generate] Stream request failed:', error);
+    next(error);
+  }
+});
+
+router.post('/fragment', requireAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { fragment, instruction, style, model } = req.body as FragmentRequestBody;
+
+    if (typeof fragment !== 'string' || !fragment.trim()) {
+      res.status(400).json({ error: 'Missing fragment' });
+      return;
+    }
+    if (typeof instruction !== 'string' || !instruction.trim()) {
+      res.status(400).json({ error: 'Missing instruction' });
+      return;
+    }
+    const styleGuide = readStyle(style, res);
+    if (styleGuide === null) return;
+    const selection = await readModel(model, res);
+    if (!selection) return;
+
+    console.log(`[Generate] Fragment request from user ${res.locals.user.id}`);
+    const result = await regenerateFragment(fragment, instruction, styleGuide, selection);
+    res.json(result);
+  } catch (error) {
+    console.error('[Generate] Fragment request failed:', error);
+    next(error);
+  }
+});
+
+router.post('/refine', requireAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { html, history, instruction, style, model } = req.body as RefineRequestBody;
+
+    if (typeof html !== 'string' || !html.trim()) {
+      res.status(400).json({ error: 'Missing html' });
+      return;
+    }
+    if (typeof instruction !== 'string' || !instruction.trim()) {
+      res.status(400).json({ error: 'Missing instruction' });
+      return;
+    }
+    const previous = history ?? [];
+    if (!isRefinementHistory(previous)) {
+      res.status(400).json({ error: 'history must be a list of { instruction, base_version_id } turns' });
+      return;
+    }
+    const styleGuide = readStyle(style, res);
+    if (styleGuide === null) return;
+    const selection = await readModel(model, res);
+    if (!selection) return;
+
+    console.log(`[Generate] Refinement request from user ${res.locals.user.id}`);
+    const result = await refineLandingPage(
+      html,
+      previous.map(turn => turn.instruction),
+      instruction,
+      styleGuide,
+      selection
+    );
+    res.json(result);
+  } catch (error) {
+    console.error('[Generate] Refinement request failed:', error);
+    next(error);
+  }
+});
+
+export default router;
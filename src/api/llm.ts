@@ -0,0 +1,329 @@
+import OpenAI from 'openai';
+import type { LLMProviderId, ModelOption, ModelSelection } from '../types/database';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  // Minimum delay between two requests to this provider
+  minRequestInterval: number;
+  listModels(): Promise<string[]>;
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export const DEFAULT_MODEL: ModelSelection = { provider: 'openai', model: 'o1-mini' };
+
+const providers = new Map<LLMProviderId, LLMProvider>();
+const lastRequestTimes = new Map<LLMProviderId, number>();
+
+// Covers OpenAI itself and any server speaking its API (Ollama, llama.cpp,
+// vLLM...). Those servers mostly predate max_completion_tokens.
+function createOpenAIProvider(
+  id: LLMProviderId,
+  options: { apiKey: string; baseURL?: string; legacyMaxTokens?: boolean }
+): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  const tokenLimit = (maxTokens: number) =>
+    options.legacyMaxTokens ? { max_tokens: maxTokens } : { max_completion_tokens: maxTokens };
+
+  return {
+    id,
+    minRequestInterval: id === 'openai' ? 20000 : 0,
+    async listModels() {
+      const response = await client.models.list();
+      return response.data.map(model => model.id);
+    },
+    async complete({ model, messages, maxTokens, signal }) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: 1,
+        ...tokenLimit(maxTokens),
+      }, { signal });
+      return completion.choices[0]?.message.content || '';
+    },
+    async *stream({ model, messages, maxTokens, signal }) {
+      const stream = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: 1,
+        ...tokenLimit(maxTokens),
+        stream: true,
+      }, { signal });
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+      }
+    },
+  };
+}
+
+// The parts of a Messages API stream event that are read here
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { type?: string; message?: string };
+}
+
+// Talks to the Anthropic Messages API (or a compatible proxy) over fetch
+function createAnthropicProvider(options: { apiKey: string; baseURL: string }): LLMProvider {
+  const headers = {
+    'x-api-key': options.apiKey,
+    'anthropic-version': '2023-06-01',
+    'content-type': 'application/json',
+  };
+
+  const buildBody = ({ model, messages, maxTokens }: CompletionRequest, stream: boolean) => {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return JSON.stringify({
+      model,
+      max_tokens: maxTokens,
+      ...(system ? { system } : {}),
+      messages: messages.filter(m => m.role !== 'system'),
+      stream,
+    });
+  };
+
+  const post = async (request: CompletionRequest, stream: boolean) => {
+    const response = await fetch(`${options.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers,
+      body: buildBody(request, stream),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Anthropic API failed: ${response.status} - ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'anthropic',
+    minRequestInterval: 0,
+    async listModels() {
+      const response = await fetch(`${options.baseURL}/v1/models`, { headers });
+      if (!response.ok) {
+        throw new Error(`Anthropic API failed: ${response.status} - ${await response.text()}`);
+      }
+      const { data } = await response.json() as { data: { id: string }[] };
+      return data.map(model => model.id);
+    },
+    async complete(request) {
+      const response = await post(request, false);
+      const { content } = await response.json() as { content: { type: string; text?: string }[] };
+      return content.filter(block => block.type === 'text').map(block => block.text).join('');
+    },
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.body) return;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          let event: AnthropicStreamEvent;
+          try {
+            event = JSON.parse(line.slice('data: '.length));
+          } catch {
+            console.warn('[LLM] Skipping malformed Anthropic stream event:', line);
+            continue;
+          }
+          // Overloaded and similar errors arrive mid-stream with status 200
+          if (event.type === 'error') {
+            throw new Error(`Anthropic API failed: ${event.error?.type || 'error'} - ${event.error?.message || 'stream error'}`);
+          }
+          if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            yield event.delta.text;
+          }
+        }
+      }
+    },
+  };
+}
+
+// FNV-1a, so the mock output changes with the prompt but never between runs
+function hashMessages(messages: ChatMessage[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of messages.map(m => `${m.role}:${m.content}`).join('\n')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+// The model name comes from the request body
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Deterministic provider for tests and offline development: the same
+// messages always produce the same document
+export function createMockProvider(): LLMProvider {
+  const render = ({ model, messages }: CompletionRequest) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Mock Landing Page</title>
+</head>
+<body>
+    <main data-mock-model="${escapeAttribute(model)}" data-mock-hash="${hashMessages(messages)}">
+        <h1>Mock Landing Page</h1>
+        <p>Generated by the mock provider.</p>
+    </main>
+</body>
+</html>`;
+
+  return {
+    id: 'mock',
+    minRequestInterval: 0,
+    async listModels() {
+      return ['mock-landing-page'];
+    },
+    async complete(request) {
+      return render(request);
+    },
+    async *stream(request) {
+      const html = render(request);
+      for (let i = 0; i < html.length; i += 64) {
+        if (request.signal?.aborted) return;
+        yield html.slice(i, i + 64);
+      }
+    },
+  };
+}
+
+function createProvider(id: LLMProviderId): LLMProvider | null {
+  switch (id) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY
+        ? createOpenAIProvider('openai', {
+            apiKey: process.env.OPENAI_API_KEY,
+            baseURL: process.env.OPENAI_BASE_URL || undefined,
+          })
+        : null;
+    case 'anthropic':
+      return process.env.ANTHROPIC_API_KEY
+        ? createAnthropicProvider({
+            apiKey: process.env.ANTHROPIC_API_KEY,
+            baseURL: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+          })
+        : null;
+    case 'openai-compatible':
+      // Local servers usually accept any key
+      return process.env.LLM_BASE_URL
+        ? createOpenAIProvider('openai-compatible', {
+            apiKey: process.env.LLM_API_KEY || 'not-needed',
+            baseURL: process.env.LLM_BASE_URL,
+            legacyMaxTokens: true,
+          })
+        : null;
+    case 'mock':
+      return process.env.MOCK_LLM === 'true' ? createMockProvider() : null;
+    default:
+      return null;
+  }
+}
+
+const PROVIDER_IDS: LLMProviderId[] = ['openai', 'anthropic', 'openai-compatible', 'mock'];
+
+export function getProvider(id: LLMProviderId): LLMProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    const created = createProvider(id);
+    if (!created) {
+      throw new Error(`LLM provider "${id}" is not configured on the server`);
+    }
+    provider = created;
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+// Lets tests swap in their own provider (e.g. the mock) without env config
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getConfiguredProviders(): LLMProvider[] {
+  return PROVIDER_IDS.flatMap(id => {
+    try {
+      return [getProvider(id)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export async function listAvailableModels(): Promise<ModelOption[]> {
+  const results = await Promise.all(
+    getConfiguredProviders().map(async provider => {
+      try {
+        const models = await provider.listModels();
+        return models.map(id => ({ provider: provider.id, id }));
+      } catch (error) {
+        console.error(`[LLM] Failed to list models for ${provider.id}:`, error);
+        return [];
+      }
+    })
+  );
+  return results.flat();
+}
+
+// Listing models is a network call per provider, so checks share one list.
+// A model that is missing from a list older than MODEL_LIST_RECHECK may have
+// just been pulled (e.g. into Ollama), so that triggers a fresh one.
+const MODEL_LIST_TTL = 5 * 60 * 1000;
+const MODEL_LIST_RECHECK = 30 * 1000;
+let modelList: { models: ModelOption[]; fetchedAt: number } | null = null;
+
+async function refreshModelList(): Promise<ModelOption[]> {
+  modelList = { models: await listAvailableModels(), fetchedAt: Date.now() };
+  return modelList.models;
+}
+
+export async function isModelAvailable(selection: ModelSelection): Promise<boolean> {
+  const matches = (models: ModelOption[]) =>
+    models.some(option => option.provider === selection.provider && option.id === selection.model);
+
+  const age = modelList ? Date.now() - modelList.fetchedAt : Infinity;
+  const models = modelList && age < MODEL_LIST_TTL ? modelList.models : await refreshModelList();
+  if (matches(models)) return true;
+  return age >= MODEL_LIST_RECHECK && age < MODEL_LIST_TTL && matches(await refreshModelList());
+}
+
+export async function waitForRateLimit(provider: LLMProvider) {
+  const now = Date.now();
+  const timeSinceLastRequest = now - (lastRequestTimes.get(provider.id) || 0);
+
+  if (timeSinceLastRequest < provider.minRequestInterval) {
+    await new Promise(resolve =>
+      setTimeout(resolve, provider.minRequestInterval - timeSinceLastRequest)
+    );
+  }
+
+  lastRequestTimes.set(provider.id, Date.now());
+}
@@ -0,0 +1,94 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'node:crypto';
+
+interface MockItem {
+  id: string;
+  isArchived: boolean;
+  isDraft: boolean;
+  fieldData: Record<string, unknown>;
+  lastPublished: string | null;
+}
+
+// An in-memory stand-in for the parts of the Webflow Data API (v2) the
+// deploy target uses. Any site or collection ID exists; items live until the
+// server restarts. Point WEBFLOW_API_BASE_URL at wherever this is mounted.
+export function createMockWebflowRouter() {
+  const router = express.Router();
+  const collections = new Map<string, Map<string, MockItem>>();
+
+  const itemsOf = (collectionId: string) => {
+    let items = collections.get(collectionId);
+    if (!items) {
+      items = new Map();
+      collections.set(collectionId, items);
+    }
+    return items;
+  };
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      res.status(401).json({ message: 'Missing API token' });
+      return;
+    }
+    next();
+  });
+
+  router.get('/sites/:siteId', (req, res) => {
+    res.json({ id: req.params.siteId, displayName: 'Mock site', shortName: 'mock-site', customDomains: [] });
+  });
+
+  router.get('/collections/:collectionId', (req, res) => {
+    res.json({ id: req.params.collectionId, displayName: 'Pages', slug: 'pages' });
+  });
+
+  router.get('/collections/:collectionId/items/:itemId', (req, res) => {
+    const item = itemsOf(req.params.collectionId).get(req.params.itemId);
+    if (!item) {
+      res.status(404).json({ message: 'Item not found' });
+      return;
+    }
+    res.json(item);
+  });
+
+  router.post('/collections/:collectionId/items', (req, res) => {
+    const item: MockItem = {
+      id: randomUUID().replace(/-/g, '').slice(0, 24),
+      isArchived: !!req.body?.isArchived,
+      isDraft: !!req.body?.isDraft,
+      fieldData: req.body?.fieldData || {},
+      lastPublished: null,
+    };
+    itemsOf(req.params.collectionId).set(item.id, item);
+    res.status(202).json(item);
+  });
+
+  router.patch('/collections/:collectionId/items/:itemId', (req, res) => {
+    const item = itemsOf(req.params.collectionId).get(req.params.itemId);
+    if (!item) {
+      res.status(404).json({ message: 'Item not found' });
+      return;
+    }
+    Object.assign(item, {
+      isArchived: req.body?.isArchived ?? item.isArchived,
+      isDraft: req.body?.isDraft ?? item.isDraft,
+      fieldData: { ...item.fieldData, ...req.body?.fieldData },
+    });
+    res.json(item);
+  });
+
+  router.post('/collections/:collectionId/items/publish', (req, res) => {
+    const items = itemsOf(req.params.collectionId);
+    const itemIds: string[] = Array.isArray(req.body?.itemIds) ? req.body.itemIds : [];
+    const publishedItemIds = itemIds.filter(id => items.has(id));
+    const now = new Date().toISOString();
+    publishedItemIds.forEach(id => {
+      items.get(id)!.lastPublished = now;
+    });
+    res.status(202).json({
+      publishedItemIds,
+      errors: itemIds.filter(id => !items.has(id)).map(id => `Item ${id} not found`),
+    });
+  });
+
+  return router;
+}
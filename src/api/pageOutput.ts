@@ -0,0 +1,132 @@
+import * as cheerio from 'cheerio';
+import type { OutputIssue } from '../lib/prompt';
+
+// Cleans up a full-page completion: models wrap pages in markdown fences,
+// talk before or after them, stop at the token limit and leave out parts of
+// the document skeleton. Continuing a cut-off page needs the model, so that
+// part lives in generate.ts; everything here is plain string work.
+
+const DOCUMENT_START = /<!doctype html|<html[\s>]|<head[\s>]|<body[\s>]/i;
+// Overlap to look for when a continuation repeats the end of the page
+const MAX_OVERLAP = 500;
+// A tag the page was cut off in, e.g. the "<footer" of "<footer>"
+const DANGLING_TAG = /<[^<>]*$/;
+
+function lastIndexOf(text: string, pattern: RegExp): number {
+  let index = -1;
+  for (const match of text.matchAll(new RegExp(pattern.source, 'gi'))) {
+    index = match.index ?? index;
+  }
+  return index;
+}
+
+// Removes fences and surrounding prose. Returns null when there is no HTML
+// document in the text at all.
+export function extractDocument(raw: string): { html: string; issues: OutputIssue[] } | null {
+  const issues: OutputIssue[] = [];
+  let text = raw.trim();
+
+  // The closing fence is missing when the response was cut off
+  const fenced = /```[a-z]*[ \t]*\n([\s\S]*?)(?:\n[ \t]*```|$)/i.exec(text);
+  if (fenced && DOCUMENT_START.test(fenced[1])) {
+    text = fenced[1].trim();
+    issues.push({ code: 'code_fence', message: 'Removed the markdown code fence around the page', fixed: true });
+  }
+
+  const start = text.search(DOCUMENT_START);
+  if (start === -1) return null;
+  if (text.slice(0, start).trim()) {
+    text = text.slice(start);
+    issues.push({ code: 'leading_text', message: 'Removed text before the HTML document', fixed: true });
+  }
+
+  const end = lastIndexOf(text, /<\/html\s*>/);
+  if (end !== -1) {
+    const close = text.indexOf('>', end) + 1;
+    if (text.slice(close).trim()) {
+      text = text.slice(0, close);
+      issues.push({ code: 'trailing_text', message: 'Removed text after the HTML document', fixed: true });
+    }
+  }
+
+  return { html: text, issues };
+}
+
+// The page stops before its last closing tag, or in the middle of a tag
+export function isTruncated(html: string): boolean {
+  const text = html.trimEnd();
+  if (/<[^>]*$/.test(text)) return true;
+  if (/<html[\s>]/i.test(text)) return !/<\/html\s*>$/i.test(text);
+  if (/<body[\s>]/i.test(text)) return !/<\/body\s*>$/i.test(text);
+  return false;
+}
+
+// Strips a fence the model may put around the rest of the page
+export function cleanContinuation(text: string): string {
+  return text.replace(/^\s*```[a-z]*[ \t]*\n/i, '').replace(/\n?[ \t]*```\s*$/, '');
+}
+
+// Appends a continuation, dropping the part of it that repeats the end of
+// what was already written. A continuation that starts with a tag while the
+// page stops inside one writes that tag again instead of finishing it, so the
+// cut-off tag is dropped.
+export function joinContinuation(partial: string, continuation: string): string {
+  const limit = Math.min(MAX_OVERLAP, partial.length, continuation.length);
+  for (let length = limit; length > 0; length--) {
+    if (partial.endsWith(continuation.slice(0, length))) {
+      // Short overlaps are likely coincidence (e.g. a shared ">")
+      if (length >= 8) return partial + continuation.slice(length);
+      break;
+    }
+  }
+  const dangling = DANGLING_TAG.exec(partial);
+  if (dangling && /^\s*<[a-z!/]/i.test(continuation)) {
+    return partial.slice(0, dangling.index) + continuation.trimStart();
+  }
+  return partial + continuation;
+}
+
+// Checks the document skeleton and adds what can be added without guessing
+// at the page: doctype, <html>, <head>, <body> and the viewport meta tag
+export function checkDocument(input: string): { html: string; issues: OutputIssue[] } {
+  const issues: OutputIssue[] = [];
+  const fixed = (code: OutputIssue['code'], message: string) => issues.push({ code, message, fixed: true });
+  let html = input.trim();
+
+  if (!/^<!doctype html\s*>/i.test(html)) {
+    html = `<!DOCTYPE html>\n${html.replace(/^<!doctype[^>]*>\s*/i, '')}`;
+    fixed('missing_doctype', 'Added the missing <!DOCTYPE html>');
+  }
+  if (!/<html[\s>]/i.test(html)) {
+    html = html.replace(/^(<!DOCTYPE html>\s*)/i, '$1<html lang="en">\n') + '\n</html>';
+    fixed('missing_html', 'Wrapped the page in an <html> element');
+  }
+  if (!/<head[\s>]/i.test(html)) {
+    html = html.replace(/<html(\s[^>]*)?>/i, match => `${match}\n<head>\n<meta charset="UTF-8">\n</head>`);
+    fixed('missing_head', 'Added the missing <head>');
+  }
+  if (!/<body[\s>]/i.test(html)) {
+    html = html.replace(
+      /(<\/head\s*>)([\s\S]*?)(<\/html\s*>\s*)$/i,
+      (_, head: string, content: string, end: string) => `${head}\n<body>${content}</body>\n${end}`
+    );
+    fixed('missing_body', 'Wrapped the page content in a <body>');
+  }
+
+  const $ = cheerio.load(html);
+  if (!$('meta[name="viewport"]').length) {
+    // After the charset declaration, which should come first in <head>
+    const charset = /<meta\s[^>]*charset[^>]*>/i;
+    const anchor = charset.test(html) ? charset : /<head(\s[^>]*)?>/i;
+    html = html.replace(
+      anchor,
+      match => `${match}\n<meta name="viewport" content="width=device-width, initial-scale=1.0">`
+    );
+    fixed('missing_viewport', 'Added the missing viewport meta tag');
+  }
+  if (!$('title').text().trim()) {
+    issues.push({ code: 'missing_title', message: 'The page has no <title>', fixed: false });
+  }
+
+  return { html, issues };
+}
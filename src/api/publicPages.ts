@@ -0,0 +1,67 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { getSupabaseClient } from './auth';
+import { isValidSlug } from '../lib/slug';
+
+const router = express.Router();
+
+// Browsers and shared caches may reuse a page briefly, then revalidate with
+// the ETag; republishing changes it
+const CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=300';
+
+const NOT_FOUND_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Page not found</title></head>
+<body style="font-family: system-ui, sans-serif; text-align: center; padding: 4rem;">
+  <h1>Page not found</h1>
+  <p>This page does not exist or has not been published.</p>
+</body>
+</html>`;
+
+function sendNotFound(res: Response) {
+  res
+    .status(404)
+    .set('Cache-Control', 'no-store')
+    .type('html')
+    .send(NOT_FOUND_PAGE);
+}
+
+// Serves the published version of a final project. Drafts and unknown slugs
+// get the same 404, so unpublished projects cannot be discovered.
+router.get('/:slug', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { slug } = req.params;
+  if (!isValidSlug(slug)) {
+    sendNotFound(res);
+    return;
+  }
+
+  try {
+    const { data, error } = await getSupabaseClient()
+      .rpc('get_published_page', { p_slug: slug })
+      .maybeSingle<{ version_id: string; html_content: string | null; published_at: string | null }>();
+
+    if (error) throw error;
+    if (!data?.html_content) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.set({
+      'Cache-Control': CACHE_CONTROL,
+      ETag: `"${data.version_id}-${data.published_at ? new Date(data.published_at).getTime() : 0}"`,
+      // Generated pages run their own scripts; the sandbox gives them an
+      // opaque origin so they cannot read the app's session on this host
+      'Content-Security-Policy': 'sandbox allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox',
+      'X-Content-Type-Options': 'nosniff',
+    });
+    if (data.published_at) {
+      res.set('Last-Modified', new Date(data.published_at).toUTCString());
+    }
+    // res.send answers conditional requests with 304 when the ETag matches
+    res.type('html').send(data.html_content);
+  } catch (error) {
+    console.error(`[Public Pages] Failed to load /p/${slug}:`, error);
+    next(error);
+  }
+});
+
+export default router;
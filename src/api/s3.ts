@@ -0,0 +1,115 @@
+import { createHash, createHmac } from 'node:crypto';
+
+// Just enough of S3 to upload files: a Signature Version 4 signer and
+// PutObject, using path-style URLs so any S3-compatible server (MinIO,
+// R2, Ceph...) works as well as AWS.
+
+export interface S3Config {
+  endpoint: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  // Defaults to now
+  date?: Date;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding, which S3 expects in the canonical request
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function canonicalQuery(url: URL): string {
+  return Array.from(url.searchParams.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+// Returns the headers to send: the given ones plus host, x-amz-date,
+// x-amz-content-sha256 and Authorization
+export function signS3Request(config: S3Config, request: SignableRequest): Record<string, string> {
+  const amzDate = (request.date || new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {};
+  Object.entries({
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash,
+  }).forEach(([key, value]) => {
+    headers[key.toLowerCase()] = value.trim();
+  });
+
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery(request.url),
+    names.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export function objectUrl(endpoint: string, bucket: string, key: string): URL {
+  const path = [bucket, ...key.split('/')].map(encodeRfc3986).join('/');
+  return new URL(`${endpoint.replace(/\/+$/, '')}/${path}`);
+}
+
+export async function putObject(
+  config: S3Config,
+  bucket: string,
+  key: string,
+  body: string,
+  contentType: string
+): Promise<URL> {
+  const url = objectUrl(config.endpoint, bucket, key);
+  const headers = signS3Request(config, {
+    method: 'PUT',
+    url,
+    headers: { 'content-type': contentType },
+    payloadHash: sha256Hex(body),
+  });
+  // fetch sets Host itself and refuses to take it from us
+  delete headers.host;
+
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers,
+    body,
+    signal: AbortSignal.timeout(30000),
+  });
+  if (!response.ok) {
+    const detail = (await response.text()).slice(0, 300);
+    throw new Error(`S3 PUT ${bucket}/${key} failed: ${response.status} ${detail}`);
+  }
+  return url;
+}
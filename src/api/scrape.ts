@@ -0,0 +1,23 @@
+import express, { Request, Response, NextFunction } from 'express';
+import handler from '../../api/scrape';
+import { requireAuth } from './auth';
+
+const router = express.Router();
+
+// Runs the serverless scrape handler inside the Express server. Signed-in users
+// only: the server fetches whatever URL it is given.
+router.get('/', requireAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const url = new URL(req.originalUrl, `${req.protocol}://${req.get('host')}`);
+    const response = await handler(new globalThis.Request(url, { method: req.method }));
+
+    res.status(response.status);
+    response.headers.forEach((value, key) => res.setHeader(key, value));
+    res.send(await response.text());
+  } catch (error) {
+    console.error('[Scraping API] Adapter error:', error);
+    next(error);
+  }
+});
+
+export default router;
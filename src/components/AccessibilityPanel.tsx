@@ -0,0 +1,68 @@
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { AccessibilityIssue, AccessibilityRule } from '../lib/accessibility';
+
+interface AccessibilityPanelProps {
+  issues: AccessibilityIssue[];
+  onShowIssue: (issue: AccessibilityIssue) => void;
+}
+
+const RULE_LABELS: Record<AccessibilityRule, string> = {
+  contrast: 'Contrast',
+  'alt-text': 'Alt text',
+  'heading-order': 'Headings',
+  landmarks: 'Landmarks',
+  'form-labels': 'Form labels',
+  'link-text': 'Link text',
+};
+
+function AccessibilityPanel({ issues, onShowIssue }: AccessibilityPanelProps) {
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+      <div className="flex items-center">
+        <h3 className="text-sm font-medium text-gray-900">Accessibility</h3>
+        <span className="ml-3 text-xs text-gray-500">
+          {errors} {errors === 1 ? 'error' : 'errors'}, {warnings} {warnings === 1 ? 'warning' : 'warnings'}
+        </span>
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="mt-2 flex items-center text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4 mr-2" />
+          No issues found
+        </p>
+      ) : (
+        <ul className="mt-3 max-h-64 overflow-y-auto divide-y divide-gray-100">
+          {issues.map((issue, index) => (
+            <li key={index} className="py-1.5 flex items-start text-sm">
+              {issue.severity === 'error' ? (
+                <AlertCircle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0 text-red-500" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0 text-yellow-500" />
+              )}
+              <span className="w-24 flex-shrink-0 text-xs font-medium uppercase tracking-wide text-gray-500 mt-0.5">
+                {RULE_LABELS[issue.rule]}
+              </span>
+              <span className="flex-1 text-gray-700">{issue.message}</span>
+              {issue.line !== null && (
+                <button
+                  onClick={() => onShowIssue(issue)}
+                  className="ml-4 text-xs text-indigo-600 hover:text-indigo-700"
+                >
+                  line {issue.line}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-3 text-xs text-gray-500">
+        Checked offline against the page source. Styles inside media queries, hover states and images behind text are not evaluated.
+      </p>
+    </div>
+  );
+}
+
+export default AccessibilityPanel;
@@ -0,0 +1,133 @@
+import { Palette } from 'lucide-react';
+import type { FidelityCategory, FidelityIssue, FidelityReport } from '../lib/brandFidelity';
+
+interface BrandFidelityPanelProps {
+  report: FidelityReport | null;
+  // Published pages can't be changed, so there is nothing to fix
+  readOnly: boolean;
+  onFix: () => void;
+  onShowIssue: (issue: FidelityIssue) => void;
+}
+
+const CATEGORY_LABELS: Record<FidelityCategory, string> = {
+  color: 'Colors',
+  font: 'Fonts',
+  radius: 'Corner radii',
+  button: 'Buttons',
+};
+
+// Lines listed per value before the rest are summarised
+const MAX_LINES = 5;
+
+function scoreClassName(score: number): string {
+  if (score >= 90) return 'text-green-700 bg-green-100';
+  if (score >= 70) return 'text-yellow-800 bg-yellow-100';
+  return 'text-red-700 bg-red-100';
+}
+
+// Issues with the same value and suggestion, e.g. every use of one stray colour
+interface IssueGroup {
+  value: string;
+  suggestion: string | null;
+  issues: FidelityIssue[];
+}
+
+function groupIssues(issues: FidelityIssue[]): Map<FidelityCategory, IssueGroup[]> {
+  const groups = new Map<FidelityCategory, IssueGroup[]>();
+  issues.forEach(issue => {
+    const list = groups.get(issue.category) || [];
+    const group = list.find(g => g.value.toLowerCase() === issue.value.toLowerCase() && g.suggestion === issue.suggestion);
+    if (group) {
+      group.issues.push(issue);
+    } else {
+      list.push({ value: issue.value, suggestion: issue.suggestion, issues: [issue] });
+    }
+    groups.set(issue.category, list);
+  });
+  return groups;
+}
+
+function BrandFidelityPanel({ report, readOnly, onFix, onShowIssue }: BrandFidelityPanelProps) {
+  if (!report) {
+    return (
+      <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+        <p className="text-sm text-gray-500">
+          This project has no scraped style guide to check against.
+        </p>
+      </div>
+    );
+  }
+
+  const groups = groupIssues(report.issues);
+  const fixable = report.issues.filter(issue => issue.suggestion !== null).length;
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Palette className="h-5 w-5 text-gray-400" />
+          <h3 className="ml-2 text-sm font-medium text-gray-900">Brand fidelity</h3>
+          <span className={`ml-3 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${scoreClassName(report.score)}`}>
+            {report.score}%
+          </span>
+          <span className="ml-3 text-xs text-gray-500">
+            {report.checked - report.issues.length} of {report.checked} values match the style guide
+          </span>
+        </div>
+        {!readOnly && (
+          <button
+            onClick={onFix}
+            disabled={!fixable}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            title="Replace each off-brand value with the nearest one from the style guide"
+          >
+            Snap {fixable} {fixable === 1 ? 'value' : 'values'} to brand
+          </button>
+        )}
+      </div>
+
+      {report.issues.length > 0 && (
+        <div className="mt-4 space-y-4">
+          {Array.from(groups.entries()).map(([category, list]) => (
+            <div key={category}>
+              <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500">{CATEGORY_LABELS[category]}</h4>
+              <ul className="mt-2 divide-y divide-gray-100">
+                {list.map(group => (
+                  <li key={`${group.value}:${group.suggestion}`} className="py-1.5 flex items-center text-sm">
+                    {(category === 'color' || category === 'button') && /^(#|rgb|hsl)/i.test(group.value) && (
+                      <span className="h-4 w-4 mr-2 rounded border border-gray-200" style={{ background: group.value }} />
+                    )}
+                    <code className="text-gray-900">{group.value}</code>
+                    {group.suggestion && (
+                      <>
+                        <span className="mx-2 text-gray-400">→</span>
+                        {/^#/.test(group.suggestion) && (
+                          <span className="h-4 w-4 mr-2 rounded border border-gray-200" style={{ background: group.suggestion }} />
+                        )}
+                        <code className="text-gray-700">{group.suggestion}</code>
+                      </>
+                    )}
+                    <span className="ml-auto text-xs text-gray-500">
+                      {group.issues[0].property} · line{' '}
+                      {group.issues.slice(0, MAX_LINES).map((issue, index) => (
+                        <span key={issue.start}>
+                          {index > 0 && ', '}
+                          <button onClick={() => onShowIssue(issue)} className="text-indigo-600 hover:text-indigo-700">
+                            {issue.line}
+                          </button>
+                        </span>
+                      ))}
+                      {group.issues.length > MAX_LINES && ` and ${group.issues.length - MAX_LINES} more`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BrandFidelityPanel;
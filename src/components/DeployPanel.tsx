@@ -0,0 +1,307 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { CheckCircle2, ExternalLink, Loader2, Rocket, XCircle } from 'lucide-react';
+import { getDeployments, getProject, updateProject } from '../lib/supabase';
+import { deployProject } from '../lib/deploy';
+import type { Deployment, DeploymentSettings, Project } from '../types/database';
+
+interface DeployPanelProps {
+  project: Project;
+  onProjectUpdate: (project: Project) => void;
+}
+
+// Webflow, one of the generic 'custom' targets, or nothing
+type TargetChoice = 'none' | 'webflow' | 'filesystem' | 's3' | 'hook';
+
+const inputClassName =
+  'w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2 border text-sm';
+
+function DeployPanel({ project, onProjectUpdate }: DeployPanelProps) {
+  const stored = project.settings?.deployment;
+  const webflow = stored?.platform === 'webflow' ? stored.settings : undefined;
+  const custom = stored?.platform === 'custom' && 'target' in stored.settings ? stored.settings : undefined;
+  const [choice, setChoice] = useState<TargetChoice>(webflow ? 'webflow' : custom?.target || 'none');
+  const [siteId, setSiteId] = useState(webflow?.site_id || '');
+  const [collectionId, setCollectionId] = useState(webflow?.collection_id || '');
+  const [htmlField, setHtmlField] = useState(webflow?.html_field || '');
+  const [directory, setDirectory] = useState(custom?.target === 'filesystem' ? custom.directory : '');
+  const [bucket, setBucket] = useState(custom?.target === 's3' ? custom.bucket : '');
+  const [prefix, setPrefix] = useState(custom?.target === 's3' ? custom.prefix || '' : '');
+  const [hookUrl, setHookUrl] = useState(custom?.target === 'hook' ? custom.url : '');
+  const [deployments, setDeployments] = useState<Deployment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getDeployments(project.id)
+      .then(setDeployments)
+      .catch(err => console.error('Error loading deployments:', err));
+  }, [project.id]);
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    let deployment: DeploymentSettings;
+    let missing: string | null = null;
+    switch (choice) {
+      case 'webflow':
+        if (!siteId.trim() || !collectionId.trim()) missing = 'the Webflow site ID and collection ID';
+        deployment = {
+          platform: 'webflow',
+          settings: {
+            site_id: siteId.trim(),
+            collection_id: collectionId.trim(),
+            html_field: htmlField.trim() || undefined,
+            // Keep updating the same item unless the collection changed
+            item_id: webflow?.collection_id === collectionId.trim() ? webflow.item_id : undefined,
+          },
+        };
+        break;
+      case 'filesystem':
+        if (!directory.trim()) missing = 'the folder';
+        deployment = { platform: 'custom', settings: { target: 'filesystem', directory: directory.trim() } };
+        break;
+      case 's3':
+        if (!bucket.trim()) missing = 'the bucket';
+        deployment = {
+          platform: 'custom',
+          settings: { target: 's3', bucket: bucket.trim(), prefix: prefix.trim() || undefined },
+        };
+        break;
+      case 'hook':
+        if (!hookUrl.trim()) missing = 'the build hook URL';
+        deployment = { platform: 'custom', settings: { target: 'hook', url: hookUrl.trim() } };
+        break;
+      default:
+        deployment = { platform: 'custom', settings: {} };
+    }
+    if (missing) {
+      setError(`Enter ${missing}`);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      onProjectUpdate(await updateProject(project.id, {
+        settings: { ...project.settings, deployment },
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save deployment settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeploy = async () => {
+    setIsDeploying(true);
+    setError(null);
+    try {
+      const deployment = await deployProject(project.id);
+      setDeployments([deployment, ...deployments]);
+      // The target may have stored settings (e.g. the created item)
+      onProjectUpdate(await getProject(project.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Deployment failed');
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const isConfigured = !!webflow || !!custom;
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+      <form onSubmit={handleSave} className="flex items-end space-x-4">
+        <div>
+          <label htmlFor="deploy-platform" className="block text-sm font-medium text-gray-700 mb-2">
+            Deploy to
+          </label>
+          <select
+            id="deploy-platform"
+            value={choice}
+            onChange={(e) => setChoice(e.target.value as TargetChoice)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2 border text-sm"
+          >
+            <option value="none">Not deployed</option>
+            <option value="webflow">Webflow CMS</option>
+            <option value="filesystem">Server folder</option>
+            <option value="s3">S3-compatible bucket</option>
+            <option value="hook">Build hook</option>
+          </select>
+        </div>
+        {choice === 'webflow' && (
+          <>
+            <div className="flex-1">
+              <label htmlFor="webflow-site" className="block text-sm font-medium text-gray-700 mb-2">
+                Site ID
+              </label>
+              <input
+                id="webflow-site"
+                type="text"
+                value={siteId}
+                onChange={(e) => setSiteId(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="webflow-collection" className="block text-sm font-medium text-gray-700 mb-2">
+                Collection ID
+              </label>
+              <input
+                id="webflow-collection"
+                type="text"
+                value={collectionId}
+                onChange={(e) => setCollectionId(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="webflow-field" className="block text-sm font-medium text-gray-700 mb-2">
+                HTML field
+              </label>
+              <input
+                id="webflow-field"
+                type="text"
+                value={htmlField}
+                onChange={(e) => setHtmlField(e.target.value)}
+                placeholder="page-html"
+                className={inputClassName}
+              />
+            </div>
+          </>
+        )}
+        {choice === 'filesystem' && (
+          <div className="flex-1">
+            <label htmlFor="deploy-directory" className="block text-sm font-medium text-gray-700 mb-2">
+              Folder
+            </label>
+            <input
+              id="deploy-directory"
+              type="text"
+              value={directory}
+              onChange={(e) => setDirectory(e.target.value)}
+              placeholder="my-landing-page"
+              className={inputClassName}
+            />
+          </div>
+        )}
+        {choice === 's3' && (
+          <>
+            <div className="flex-1">
+              <label htmlFor="deploy-bucket" className="block text-sm font-medium text-gray-700 mb-2">
+                Bucket
+              </label>
+              <input
+                id="deploy-bucket"
+                type="text"
+                value={bucket}
+                onChange={(e) => setBucket(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="deploy-prefix" className="block text-sm font-medium text-gray-700 mb-2">
+                Key prefix
+              </label>
+              <input
+                id="deploy-prefix"
+                type="text"
+                value={prefix}
+                onChange={(e) => setPrefix(e.target.value)}
+                placeholder="landing/"
+                className={inputClassName}
+              />
+            </div>
+          </>
+        )}
+        {choice === 'hook' && (
+          <div className="flex-1">
+            <label htmlFor="deploy-hook" className="block text-sm font-medium text-gray-700 mb-2">
+              Build hook URL
+            </label>
+            <input
+              id="deploy-hook"
+              type="url"
+              value={hookUrl}
+              onChange={(e) => setHookUrl(e.target.value)}
+              placeholder="https://api.netlify.com/build_hooks/…"
+              className={inputClassName}
+            />
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={handleDeploy}
+          disabled={!isConfigured || isDeploying}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          title={isConfigured ? 'Push the current version' : 'Save a deployment target first'}
+        >
+          {isDeploying ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Rocket className="h-4 w-4 mr-2" />
+          )}
+          Deploy
+        </button>
+      </form>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {deployments.length > 0 && (
+        <div className="mt-4 border-t pt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Deployments</h4>
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {deployments.map(deployment => (
+              <li key={deployment.id} className="text-sm">
+                <div className="flex items-center space-x-2">
+                  {deployment.status === 'success' ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-500" />
+                  ) : deployment.status === 'failed' ? (
+                    <XCircle className="h-4 w-4 text-red-500" />
+                  ) : (
+                    <Loader2 className="h-4 w-4 text-gray-400 animate-spin" />
+                  )}
+                  <span className="text-gray-900">{deployment.platform}</span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(deployment.created_at).toLocaleString()}
+                  </span>
+                  {deployment.url && (
+                    <a
+                      href={deployment.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-xs text-indigo-600 hover:text-indigo-700"
+                    >
+                      <ExternalLink className="h-3 w-3 mr-1" />
+                      View
+                    </a>
+                  )}
+                </div>
+                {deployment.error && (
+                  <p className="ml-6 text-xs text-red-600">{deployment.error}</p>
+                )}
+                {deployment.log.length > 0 && (
+                  <details className="ml-6">
+                    <summary className="text-xs text-gray-500 cursor-pointer">Log</summary>
+                    <pre className="mt-1 text-xs text-gray-600 whitespace-pre-wrap">
+                      {deployment.log.join('\n')}
+                    </pre>
+                  </details>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DeployPanel;
@@ -0,0 +1,325 @@
+import type { ReactNode } from 'react';
+import { Plus, Star, X } from 'lucide-react';
+import { emptyCallToAction } from '../lib/content';
+import type { CallToAction, MarketingContent } from '../types/content';
+
+interface MarketingContentFormProps {
+  content: MarketingContent;
+  onChange: (content: MarketingContent) => void;
+}
+
+const inputClassName =
+  'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2 border text-sm';
+
+function replaceAt<T>(list: T[], index: number, item: T): T[] {
+  return list.map((existing, i) => (i === index ? item : existing));
+}
+
+function removeAt<T>(list: T[], index: number): T[] {
+  return list.filter((_, i) => i !== index);
+}
+
+function Block({ title, onAdd, children }: { title: string; onAdd?: () => void; children: ReactNode }) {
+  return (
+    <section className="border-t border-gray-200 pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">{title}</h4>
+        {onAdd && (
+          <button
+            type="button"
+            onClick={onAdd}
+            className="inline-flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </button>
+        )}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+// A list entry with its remove button
+function Item({ onRemove, children }: { onRemove: () => void; children: ReactNode }) {
+  return (
+    <div className="flex items-start space-x-2">
+      <div className="flex-1 space-y-2">{children}</div>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="mt-2 text-gray-400 hover:text-gray-600"
+        title="Remove"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+function LinkFields({ link, onChange, labelPlaceholder }: {
+  link: CallToAction;
+  onChange: (link: CallToAction) => void;
+  labelPlaceholder: string;
+}) {
+  return (
+    <div className="flex space-x-2">
+      <input
+        type="text"
+        value={link.label}
+        onChange={(e) => onChange({ ...link, label: e.target.value })}
+        placeholder={labelPlaceholder}
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={link.url}
+        onChange={(e) => onChange({ ...link, url: e.target.value })}
+        placeholder="https://… or #section"
+        className={inputClassName}
+      />
+    </div>
+  );
+}
+
+// Edits the copy of every page block. Fields are passed back as typed; blank
+// entries are dropped when the content is normalised for generation.
+function MarketingContentForm({ content, onChange }: MarketingContentFormProps) {
+  const update = (changes: Partial<MarketingContent>) => onChange({ ...content, ...changes });
+  const { hero, features, cta } = content;
+
+  return (
+    <div className="space-y-4">
+      <section className="space-y-3">
+        <h4 className="text-sm font-medium text-gray-900">Hero</h4>
+        <input
+          type="text"
+          value={hero.headline}
+          onChange={(e) => update({ hero: { ...hero, headline: e.target.value } })}
+          placeholder="Headline"
+          className={inputClassName}
+        />
+        <textarea
+          rows={2}
+          value={hero.subheadline}
+          onChange={(e) => update({ hero: { ...hero, subheadline: e.target.value } })}
+          placeholder="Subheadline"
+          className={inputClassName}
+        />
+        <LinkFields
+          link={hero.cta}
+          onChange={(link) => update({ hero: { ...hero, cta: link } })}
+          labelPlaceholder="Button label"
+        />
+      </section>
+
+      <Block
+        title="Features"
+        onAdd={() => update({ features: { ...features, items: [...features.items, { title: '', description: '' }] } })}
+      >
+        <input
+          type="text"
+          value={features.heading}
+          onChange={(e) => update({ features: { ...features, heading: e.target.value } })}
+          placeholder="Section heading"
+          className={inputClassName}
+        />
+        {features.items.map((item, index) => (
+          <Item
+            key={index}
+            onRemove={() => update({ features: { ...features, items: removeAt(features.items, index) } })}
+          >
+            <input
+              type="text"
+              value={item.title}
+              onChange={(e) => update({
+                features: { ...features, items: replaceAt(features.items, index, { ...item, title: e.target.value }) },
+              })}
+              placeholder="Feature"
+              className={inputClassName}
+            />
+            <textarea
+              rows={2}
+              value={item.description}
+              onChange={(e) => update({
+                features: { ...features, items: replaceAt(features.items, index, { ...item, description: e.target.value }) },
+              })}
+              placeholder="Description"
+              className={inputClassName}
+            />
+          </Item>
+        ))}
+      </Block>
+
+      <Block
+        title="Testimonials"
+        onAdd={() => update({ testimonials: [...content.testimonials, { quote: '', author: '', role: '' }] })}
+      >
+        {content.testimonials.map((item, index) => (
+          <Item key={index} onRemove={() => update({ testimonials: removeAt(content.testimonials, index) })}>
+            <textarea
+              rows={2}
+              value={item.quote}
+              onChange={(e) => update({ testimonials: replaceAt(content.testimonials, index, { ...item, quote: e.target.value }) })}
+              placeholder="Quote"
+              className={inputClassName}
+            />
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={item.author}
+                onChange={(e) => update({ testimonials: replaceAt(content.testimonials, index, { ...item, author: e.target.value }) })}
+                placeholder="Name"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={item.role}
+                onChange={(e) => update({ testimonials: replaceAt(content.testimonials, index, { ...item, role: e.target.value }) })}
+                placeholder="Role and company"
+                className={inputClassName}
+              />
+            </div>
+          </Item>
+        ))}
+      </Block>
+
+      <Block
+        title="Pricing"
+        onAdd={() => update({
+          pricing: [
+            ...content.pricing,
+            { name: '', price: '', period: '', features: [], cta: emptyCallToAction(), highlighted: false },
+          ],
+        })}
+      >
+        {content.pricing.map((tier, index) => (
+          <Item key={index} onRemove={() => update({ pricing: removeAt(content.pricing, index) })}>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={tier.name}
+                onChange={(e) => update({ pricing: replaceAt(content.pricing, index, { ...tier, name: e.target.value }) })}
+                placeholder="Plan"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={tier.price}
+                onChange={(e) => update({ pricing: replaceAt(content.pricing, index, { ...tier, price: e.target.value }) })}
+                placeholder="$19"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={tier.period}
+                onChange={(e) => update({ pricing: replaceAt(content.pricing, index, { ...tier, period: e.target.value }) })}
+                placeholder="per month"
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                onClick={() => update({ pricing: replaceAt(content.pricing, index, { ...tier, highlighted: !tier.highlighted }) })}
+                className={`px-2 rounded-md border ${
+                  tier.highlighted ? 'border-yellow-300 bg-yellow-50 text-yellow-600' : 'border-gray-300 text-gray-400'
+                }`}
+                title={tier.highlighted ? 'Highlighted plan' : 'Highlight this plan'}
+              >
+                <Star className="h-4 w-4" />
+              </button>
+            </div>
+            <textarea
+              rows={3}
+              value={tier.features.join('\n')}
+              onChange={(e) => update({
+                pricing: replaceAt(content.pricing, index, { ...tier, features: e.target.value.split('\n') }),
+              })}
+              placeholder="What's included, one per line"
+              className={inputClassName}
+            />
+            <LinkFields
+              link={tier.cta}
+              onChange={(link) => update({ pricing: replaceAt(content.pricing, index, { ...tier, cta: link }) })}
+              labelPlaceholder="Button label"
+            />
+          </Item>
+        ))}
+      </Block>
+
+      <Block title="FAQ" onAdd={() => update({ faq: [...content.faq, { question: '', answer: '' }] })}>
+        {content.faq.map((item, index) => (
+          <Item key={index} onRemove={() => update({ faq: removeAt(content.faq, index) })}>
+            <input
+              type="text"
+              value={item.question}
+              onChange={(e) => update({ faq: replaceAt(content.faq, index, { ...item, question: e.target.value }) })}
+              placeholder="Question"
+              className={inputClassName}
+            />
+            <textarea
+              rows={2}
+              value={item.answer}
+              onChange={(e) => update({ faq: replaceAt(content.faq, index, { ...item, answer: e.target.value }) })}
+              placeholder="Answer"
+              className={inputClassName}
+            />
+          </Item>
+        ))}
+      </Block>
+
+      <Block title="Closing call to action">
+        <input
+          type="text"
+          value={cta.heading}
+          onChange={(e) => update({ cta: { ...cta, heading: e.target.value } })}
+          placeholder="Heading"
+          className={inputClassName}
+        />
+        <textarea
+          rows={2}
+          value={cta.text}
+          onChange={(e) => update({ cta: { ...cta, text: e.target.value } })}
+          placeholder="Text"
+          className={inputClassName}
+        />
+        <LinkFields
+          link={cta.button}
+          onChange={(link) => update({ cta: { ...cta, button: link } })}
+          labelPlaceholder="Button label"
+        />
+      </Block>
+
+      <Block title="Footer links" onAdd={() => update({ footerLinks: [...content.footerLinks, emptyCallToAction()] })}>
+        {content.footerLinks.map((link, index) => (
+          <Item key={index} onRemove={() => update({ footerLinks: removeAt(content.footerLinks, index) })}>
+            <LinkFields
+              link={link}
+              onChange={(changed) => update({ footerLinks: replaceAt(content.footerLinks, index, changed) })}
+              labelPlaceholder="Label"
+            />
+          </Item>
+        ))}
+      </Block>
+
+      {content.extraSections.length > 0 && (
+        <Block title="Other imported sections">
+          {content.extraSections.map((section, index) => (
+            <Item key={index} onRemove={() => update({ extraSections: removeAt(content.extraSections, index) })}>
+              <p className="mt-2 text-sm text-gray-700">
+                {section.heading || 'Untitled section'}
+                <span className="ml-2 text-xs text-gray-500">
+                  {[
+                    section.paragraphs.length ? `${section.paragraphs.length} paragraphs` : null,
+                    section.bullets.length ? `${section.bullets.length} bullets` : null,
+                  ].filter(Boolean).join(', ')}
+                </span>
+              </p>
+            </Item>
+          ))}
+        </Block>
+      )}
+    </div>
+  );
+}
+
+export default MarketingContentForm;
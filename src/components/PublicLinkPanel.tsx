@@ -0,0 +1,112 @@
+import { useState, type FormEvent } from 'react';
+import { Check, Copy, ExternalLink, Loader2 } from 'lucide-react';
+import { isValidSlug, slugify, SLUG_MAX_LENGTH, SLUG_MIN_LENGTH } from '../lib/slug';
+import type { Project } from '../types/database';
+
+interface PublicLinkPanelProps {
+  project: Project;
+  onSave: (slug: string | null) => Promise<void>;
+}
+
+function PublicLinkPanel({ project, onSave }: PublicLinkPanelProps) {
+  const [slug, setSlug] = useState(project.slug || slugify(project.name));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const prefix = `${window.location.origin}/p/`;
+  const publicUrl = project.slug ? `${prefix}${project.slug}` : null;
+  const isLive = project.status === 'final' && !!publicUrl;
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    const value = slug.trim() ? slugify(slug) : '';
+    if (value && !isValidSlug(value)) {
+      setError(`Use ${SLUG_MIN_LENGTH}-${SLUG_MAX_LENGTH} lowercase letters, digits or hyphens`);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(value || null);
+      setSlug(value);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the public URL');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!publicUrl) return;
+    try {
+      await navigator.clipboard.writeText(publicUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying link:', err);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+      <form onSubmit={handleSave} className="flex items-end space-x-4">
+        <div className="flex-1">
+          <label htmlFor="public-slug" className="block text-sm font-medium text-gray-700 mb-2">
+            Public URL
+          </label>
+          <div className="flex rounded-md shadow-sm">
+            <span className="inline-flex items-center px-3 rounded-l-md border border-r-0 border-gray-300 bg-gray-50 text-gray-500 text-sm">
+              {prefix}
+            </span>
+            <input
+              id="public-slug"
+              type="text"
+              value={slug}
+              onChange={(e) => setSlug(e.target.value)}
+              placeholder="my-landing-page"
+              className="flex-1 min-w-0 rounded-none rounded-r-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2 border text-sm"
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving || slug === (project.slug || '')}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save URL
+        </button>
+        {isLive && (
+          <>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+              {copied ? 'Copied' : 'Copy link'}
+            </button>
+            <a
+              href={publicUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Open
+            </a>
+          </>
+        )}
+      </form>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <p className="mt-2 text-xs text-gray-500">
+        {isLive
+          ? 'Anyone with the link can view the published version, no login needed.'
+          : 'The page is served at this URL once the project is published.'}
+      </p>
+    </div>
+  );
+}
+
+export default PublicLinkPanel;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { GitBranch, Loader2, RotateCcw, Send } from 'lucide-react';
+import type { RefinementTurn, Version } from '../types/database';
+
+interface RefinementPanelProps {
+  turns: RefinementTurn[];
+  // The version the conversation currently ends at
+  headVersion: Version;
+  versions: Version[];
+  isSending: boolean;
+  onSend: (instruction: string) => void;
+  onReplay: (index: number) => void;
+  onBranch: (index: number) => void;
+}
+
+function RefinementPanel({
+  turns,
+  headVersion,
+  versions,
+  isSending,
+  onSend,
+  onReplay,
+  onBranch,
+}: RefinementPanelProps) {
+  const [instruction, setInstruction] = useState('');
+
+  const versionLabel = (versionId: string) => {
+    const version = versions.find(v => v.id === versionId);
+    return version ? `Version ${version.version_number}` : 'Deleted version';
+  };
+
+  // Turn i produced the version the next turn was applied to; the last turn
+  // produced the head of the conversation
+  const resultVersionId = (index: number) =>
+    index < turns.length - 1 ? turns[index + 1].base_version_id : headVersion.id;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim()) return;
+    onSend(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 flex flex-col h-[calc(100vh-16rem)]">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Refine</h3>
+      <div className="flex-1 overflow-y-auto space-y-4">
+        {turns.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Describe a change to Version {headVersion.version_number}. Each message
+            builds on the previous ones and is saved as a new version.
+          </p>
+        )}
+        {turns.map((turn, index) => (
+          <div key={`${turn.base_version_id}-${turn.created_at}`} className="space-y-2">
+            <div className="ml-6 p-3 rounded-md bg-indigo-50 text-sm text-gray-900">
+              {turn.instruction}
+            </div>
+            <div className="mr-6 p-3 rounded-md bg-gray-50 text-xs text-gray-600">
+              <div className="flex justify-between items-center">
+                <span>{versionLabel(resultVersionId(index))}</span>
+                <span>{new Date(turn.created_at).toLocaleString()}</span>
+              </div>
+              <div className="mt-2 flex space-x-2">
+                <button
+                  onClick={() => onReplay(index)}
+                  disabled={isSending}
+                  className="inline-flex items-center text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                  title="Run this instruction again on the version it was applied to"
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Replay
+                </button>
+                <button
+                  onClick={() => onBranch(index)}
+                  disabled={isSending}
+                  className="inline-flex items-center text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                  title="Continue the conversation from this turn"
+                >
+                  <GitBranch className="h-3 w-3 mr-1" />
+                  Branch
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      <form onSubmit={handleSubmit} className="mt-4 flex items-end space-x-2">
+        <textarea
+          rows={2}
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder="E.g., Make the hero darker"
+          className="flex-1 rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isSending || !instruction.trim()}
+          className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="h-4 w-4" />
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default RefinementPanel;
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { Code2, Columns2, Layers, XCircle } from 'lucide-react';
+import type { Version } from '../types/database';
+
+interface VersionDiffProps {
+  // Shown on the left / underneath
+  base: Version;
+  // Shown on the right / on top
+  compare: Version;
+  onClose: () => void;
+}
+
+type DiffMode = 'source' | 'side-by-side' | 'overlay';
+
+function VersionDiff({ base, compare, onClose }: VersionDiffProps) {
+  const [mode, setMode] = useState<DiffMode>('source');
+  const [overlayOpacity, setOverlayOpacity] = useState(50);
+  // Blending with "difference" turns unchanged pixels black, so only what
+  // moved or changed colour stays visible
+  const [highlightChanges, setHighlightChanges] = useState(false);
+  const [overlayHeights, setOverlayHeights] = useState<Record<string, number>>({});
+
+  const measureOverlay = (versionId: string, frame: HTMLIFrameElement) => {
+    const height = frame.contentDocument?.documentElement.scrollHeight;
+    if (height) {
+      setOverlayHeights(heights => ({ ...heights, [versionId]: height }));
+    }
+  };
+
+  const modes: { id: DiffMode; title: string; icon: JSX.Element }[] = [
+    { id: 'source', title: 'Source diff', icon: <Code2 className="h-4 w-4" /> },
+    { id: 'side-by-side', title: 'Side-by-side preview', icon: <Columns2 className="h-4 w-4" /> },
+    { id: 'overlay', title: 'Overlay preview', icon: <Layers className="h-4 w-4" /> },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="text-sm font-medium text-gray-900">
+          Version {base.version_number} → Version {compare.version_number}
+        </h3>
+        <div className="flex items-center space-x-4">
+          {mode === 'overlay' && (
+            <div className="flex items-center space-x-4 text-sm text-gray-700">
+              <label className="flex items-center space-x-2">
+                <span>Opacity</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={overlayOpacity}
+                  onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+                  disabled={highlightChanges}
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={highlightChanges}
+                  onChange={(e) => setHighlightChanges(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Highlight changes</span>
+              </label>
+            </div>
+          )}
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {modes.map(({ id, title, icon }) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                title={title}
+                className={`px-3 py-1.5 ${
+                  mode === id ? 'bg-gray-200 text-gray-900' : 'bg-white text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                {icon}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close comparison">
+            <XCircle className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="h-[calc(100vh-20rem)]">
+        {mode === 'source' && (
+          <DiffEditor
+            height="100%"
+            language="html"
+            original={base.html_content || ''}
+            modified={compare.html_content || ''}
+            options={{
+              readOnly: true,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+              wordWrap: 'on',
+            }}
+          />
+        )}
+
+        {mode === 'side-by-side' && (
+          <div className="grid grid-cols-2 h-full divide-x">
+            {[base, compare].map(version => (
+              <div key={version.id} className="flex flex-col h-full">
+                <div className="px-3 py-1 text-xs font-medium text-gray-500 border-b">
+                  Version {version.version_number}
+                </div>
+                <iframe
+                  srcDoc={version.html_content || ''}
+                  title={`Version ${version.version_number}`}
+                  className="flex-1 w-full border-0"
+                  sandbox="allow-scripts"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mode === 'overlay' && (
+          // Both pages are laid out at full height inside one scrolling box,
+          // so they always scroll together
+          <div className="h-full overflow-auto">
+            <div className="relative bg-white" style={{ height: Math.max(...Object.values(overlayHeights), 0) || '100%' }}>
+              {[base, compare].map((version, i) => (
+                <iframe
+                  key={version.id}
+                  srcDoc={version.html_content || ''}
+                  title={`Version ${version.version_number}`}
+                  onLoad={(e) => measureOverlay(version.id, e.currentTarget)}
+                  className={`absolute inset-x-0 top-0 w-full border-0 ${i === 1 ? 'pointer-events-none' : ''}`}
+                  style={{
+                    height: overlayHeights[version.id] || '100%',
+                    ...(i === 1
+                      ? highlightChanges ? { mixBlendMode: 'difference' as const } : { opacity: overlayOpacity / 100 }
+                      : {}),
+                  }}
+                  // Same-origin (but no scripts) so the page height can be read
+                  sandbox="allow-same-origin"
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VersionDiff;
@@ -0,0 +1,38 @@
+import type { Version } from '../types/database';
+
+interface VersionThumbnailProps {
+  version: Version;
+  className?: string;
+}
+
+// The page is laid out at desktop width and scaled down to fit
+const PAGE_WIDTH = 1280;
+const PAGE_HEIGHT = 800;
+const SCALE = 0.15;
+
+function VersionThumbnail({ version, className = '' }: VersionThumbnailProps) {
+  return (
+    <div
+      className={`relative overflow-hidden rounded-md border border-gray-200 bg-white ${className}`}
+      style={{ width: PAGE_WIDTH * SCALE, height: PAGE_HEIGHT * SCALE }}
+    >
+      {version.html_content ? (
+        <iframe
+          srcDoc={version.html_content}
+          title={`Version ${version.version_number}`}
+          sandbox=""
+          loading="lazy"
+          tabIndex={-1}
+          className="border-0 pointer-events-none origin-top-left"
+          style={{ width: PAGE_WIDTH, height: PAGE_HEIGHT, transform: `scale(${SCALE})` }}
+        />
+      ) : (
+        <div className="flex items-center justify-center h-full text-xs text-gray-400">
+          No content
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VersionThumbnail;
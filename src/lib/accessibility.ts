@@ -0,0 +1,553 @@
+import { contrastRatio, getPalette, normalizeColor } from './palette';
+import { lineLocator } from './sections';
+import type { ExtendedWebsiteStyle } from './prompt';
+
+// An offline accessibility audit of a page's source. The page is parsed into
+// a light element tree that keeps source offsets, so every issue can point
+// at the tag it is about. Styles are resolved from the page's own <style>
+// elements and style attributes; rules inside @media, and selectors with
+// pseudo-classes, attributes or sibling combinators are not evaluated.
+
+export type AccessibilityRule =
+  | 'contrast'
+  | 'alt-text'
+  | 'heading-order'
+  | 'landmarks'
+  | 'form-labels'
+  | 'link-text';
+
+export interface AccessibilityIssue {
+  rule: AccessibilityRule;
+  severity: 'error' | 'warning';
+  message: string;
+  // Offsets of the offending opening tag; null for issues with the brand
+  // palette itself, which have no place in the page
+  start: number | null;
+  end: number | null;
+  line: number | null;
+}
+
+// WCAG AA minimums
+const MIN_CONTRAST = 4.5;
+const MIN_CONTRAST_LARGE = 3;
+// Large text: 24px, or 18.66px when bold
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 18.66;
+const ROOT_FONT_SIZE = 16;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+// Elements whose text is never rendered as page content
+const NON_CONTENT_TAGS = new Set(['head', 'title', 'script', 'style', 'noscript', 'template', 'option']);
+const DEFAULT_FONT_SIZES: Record<string, number> = { h1: 32, h2: 24, h3: 18.72, h4: 16, h5: 13.28, h6: 10.72 };
+const BOLD_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'strong', 'b', 'th']);
+const LANDMARK_TAGS = new Set(['header', 'nav', 'main', 'footer', 'aside']);
+const LANDMARK_ROLES = new Set([
+  'banner', 'navigation', 'main', 'contentinfo', 'complementary', 'region', 'search', 'form',
+]);
+// Input types that are not filled in, so need no label
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+const GENERIC_LINK_TEXT = new Set([
+  'click here', 'here', 'read more', 'learn more', 'more', 'link', 'this link', 'click', 'details', 'continue',
+]);
+
+interface PageElement {
+  tag: string;
+  attributes: Record<string, string>;
+  // Offsets of the opening tag
+  start: number;
+  end: number;
+  parent: PageElement | null;
+  children: PageElement[];
+  // Text directly inside the element, not in its children
+  text: string;
+}
+
+interface CssRule {
+  // Compound selectors from outermost to the element itself
+  compounds: Compound[];
+  specificity: number;
+  order: number;
+  declarations: Record<string, { value: string; important: boolean }>;
+}
+
+interface Compound {
+  tag: string | null;
+  id: string | null;
+  classes: string[];
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'");
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// Builds the element tree. Unclosed elements are closed by their parent's end
+// tag, as browsers do for most of them.
+function parseElements(html: string): PageElement[] {
+  // Comments and raw text are blanked so their contents are not read as tags
+  const source = html.replace(
+    /<!--[\s\S]*?-->|(<(script|style|template)\b[^>]*>)([\s\S]*?)(<\/\2\s*>)/gi,
+    (match, open?: string, _tag?: string, content?: string, close?: string) =>
+      open ? open + ' '.repeat(content!.length) + close : ' '.repeat(match.length)
+  );
+
+  const root: PageElement = { tag: '#root', attributes: {}, start: 0, end: 0, parent: null, children: [], text: '' };
+  const elements: PageElement[] = [];
+  let current = root;
+
+  const tokens = /<(\/?)([a-z][\w-]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>|([^<]+)/gi;
+  for (const token of source.matchAll(tokens)) {
+    if (token[4] !== undefined) {
+      current.text += token[4];
+      continue;
+    }
+    const tag = token[2].toLowerCase();
+    if (token[1]) {
+      // Close the nearest open element with this name, if there is one
+      for (let element: PageElement | null = current; element && element !== root; element = element.parent) {
+        if (element.tag === tag) {
+          current = element.parent || root;
+          break;
+        }
+      }
+      continue;
+    }
+    const start = token.index ?? 0;
+    const element: PageElement = {
+      tag,
+      attributes: parseAttributes(token[3]),
+      start,
+      end: start + token[0].length,
+      parent: current,
+      children: [],
+      text: '',
+    };
+    current.children.push(element);
+    elements.push(element);
+    if (!VOID_TAGS.has(tag) && !/\/\s*$/.test(token[3])) {
+      current = element;
+    }
+  }
+  elements.forEach(element => {
+    element.text = decodeEntities(element.text);
+    if (element.parent === root) element.parent = null;
+  });
+  return elements;
+}
+
+function parseCompound(text: string): Compound | null {
+  const match = /^([a-z][\w-]*|\*)?((?:[.#][\w-]+)*)$/i.exec(text);
+  if (!match || (!match[1] && !match[2])) return null;
+  const parts = match[2].match(/[.#][\w-]+/g) || [];
+  return {
+    tag: match[1] && match[1] !== '*' ? match[1].toLowerCase() : null,
+    id: parts.find(part => part.startsWith('#'))?.slice(1) ?? null,
+    classes: parts.filter(part => part.startsWith('.')).map(part => part.slice(1)),
+  };
+}
+
+function parseDeclarations(block: string): CssRule['declarations'] {
+  const declarations: CssRule['declarations'] = {};
+  for (const match of block.matchAll(/([-\w]+)\s*:([^;]*)/g)) {
+    const value = match[2].trim();
+    if (!value) continue;
+    declarations[match[1].toLowerCase()] = {
+      value: value.replace(/\s*!important$/i, ''),
+      important: /!important$/i.test(value),
+    };
+  }
+  return declarations;
+}
+
+// Rules outside at-rules, in source order
+function parseStylesheets(html: string): CssRule[] {
+  const rules: CssRule[] = [];
+  for (const style of html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style\s*>/gi)) {
+    const css = style[1].replace(/\/\*[\s\S]*?\*\//g, '');
+    let index = 0;
+    while (index < css.length) {
+      const open = css.indexOf('{', index);
+      if (open === -1) break;
+      const prelude = css.slice(index, open).trim();
+      if (prelude.startsWith('@')) {
+        // Skip the whole at-rule block, however deeply nested
+        let depth = 1;
+        let i = open + 1;
+        for (; i < css.length && depth > 0; i++) {
+          if (css[i] === '{') depth++;
+          else if (css[i] === '}') depth--;
+        }
+        index = i;
+        continue;
+      }
+      const close = css.indexOf('}', open);
+      if (close === -1) break;
+      const declarations = parseDeclarations(css.slice(open + 1, close));
+      prelude.split(',').forEach(selector => {
+        const text = selector.trim().replace(/:root\b/i, 'html');
+        if (!text || /[:[+~]/.test(text)) return;
+        const compounds = text.split(/\s*>\s*|\s+/).map(parseCompound);
+        if (compounds.some(compound => !compound)) return;
+        const valid = compounds as Compound[];
+        rules.push({
+          compounds: valid,
+          specificity: valid.reduce(
+            (sum, compound) => sum + (compound.id ? 100 : 0) + compound.classes.length * 10 + (compound.tag ? 1 : 0),
+            0
+          ),
+          order: rules.length,
+          declarations,
+        });
+      });
+      index = close + 1;
+    }
+  }
+  return rules;
+}
+
+function matchesCompound(element: PageElement, compound: Compound): boolean {
+  if (compound.tag && element.tag !== compound.tag) return false;
+  if (compound.id && element.attributes.id !== compound.id) return false;
+  const classes = (element.attributes.class || '').split(/\s+/);
+  return compound.classes.every(name => classes.includes(name));
+}
+
+// Child combinators are treated as descendant ones
+function matchesRule(element: PageElement, rule: CssRule): boolean {
+  const compounds = rule.compounds;
+  if (!matchesCompound(element, compounds[compounds.length - 1])) return false;
+  let ancestor = element.parent;
+  for (let i = compounds.length - 2; i >= 0; i--) {
+    while (ancestor && !matchesCompound(ancestor, compounds[i])) ancestor = ancestor.parent;
+    if (!ancestor) return false;
+    ancestor = ancestor.parent;
+  }
+  return true;
+}
+
+// Resolves declared (not inherited) property values per element
+function createStyleResolver(rules: CssRule[]) {
+  const cache = new Map<PageElement, CssRule['declarations']>();
+
+  const declared = (element: PageElement): CssRule['declarations'] => {
+    let result = cache.get(element);
+    if (result) return result;
+    const matching = rules
+      .filter(rule => matchesRule(element, rule))
+      .sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+    const inline = parseDeclarations(element.attributes.style || '');
+    result = {};
+    for (const rule of matching) Object.assign(result, rule.declarations);
+    Object.assign(result, inline);
+    for (const rule of matching) {
+      for (const [property, declaration] of Object.entries(rule.declarations)) {
+        if (declaration.important) result[property] = declaration;
+      }
+    }
+    cache.set(element, result);
+    return result;
+  };
+
+  // Custom properties inherit; var() falls back when one is undefined
+  const resolveVars = (element: PageElement, value: string, depth = 0): string =>
+    depth > 5
+      ? value
+      : value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/g, (_, name: string, fallback?: string) => {
+          for (let node: PageElement | null = element; node; node = node.parent) {
+            const custom = declared(node)[name];
+            if (custom) return resolveVars(node, custom.value, depth + 1);
+          }
+          return fallback?.trim() ?? '';
+        });
+
+  const value = (element: PageElement, property: string): string | null => {
+    const declaration = declared(element)[property];
+    return declaration ? resolveVars(element, declaration.value) : null;
+  };
+
+  // The value on the element or its nearest ancestor that sets it
+  const inherited = (element: PageElement, property: string): string | null => {
+    for (let node: PageElement | null = element; node; node = node.parent) {
+      const found = value(node, property);
+      if (found && found !== 'inherit') return found;
+    }
+    return null;
+  };
+
+  return { value, inherited };
+}
+
+type StyleResolver = ReturnType<typeof createStyleResolver>;
+
+function firstColor(value: string): string | null {
+  for (const token of value.match(/#[0-9a-f]{3,8}\b|(?:rgba?|hsla?)\([^)]*\)|\b[a-z]+\b/gi) || []) {
+    const hex = normalizeColor(token);
+    if (hex) return hex;
+  }
+  return null;
+}
+
+// The colour behind an element: the nearest opaque background. Null when it
+// is an image or gradient, which can't be checked from the source. Alpha is
+// ignored, so translucent backgrounds count as solid.
+function backgroundColor(element: PageElement, styles: StyleResolver): string | null {
+  for (let node: PageElement | null = element; node; node = node.parent) {
+    const value = styles.value(node, 'background-color') ?? styles.value(node, 'background');
+    if (!value) continue;
+    if (/gradient|url\(/i.test(value)) return null;
+    const color = firstColor(value);
+    if (color) return color;
+  }
+  return '#ffffff';
+}
+
+function fontSize(element: PageElement, styles: StyleResolver): number {
+  for (let node: PageElement | null = element; node; node = node.parent) {
+    const value = styles.value(node, 'font-size');
+    const match = value && /^(\d*\.?\d+)(px|rem)$/i.exec(value);
+    if (match) return parseFloat(match[1]) * (match[2].toLowerCase() === 'rem' ? ROOT_FONT_SIZE : 1);
+    if (DEFAULT_FONT_SIZES[node.tag]) return DEFAULT_FONT_SIZES[node.tag];
+  }
+  return ROOT_FONT_SIZE;
+}
+
+function isBold(element: PageElement, styles: StyleResolver): boolean {
+  const weight = styles.inherited(element, 'font-weight');
+  if (weight) return weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 700;
+  for (let node: PageElement | null = element; node; node = node.parent) {
+    if (BOLD_TAGS.has(node.tag)) return true;
+  }
+  return false;
+}
+
+function isHidden(element: PageElement): boolean {
+  for (let node: PageElement | null = element; node; node = node.parent) {
+    if ('hidden' in node.attributes || node.attributes['aria-hidden'] === 'true') return true;
+  }
+  return false;
+}
+
+// Text a screen reader announces for an element, including image alt text
+function accessibleText(element: PageElement): string {
+  if (element.attributes['aria-hidden'] === 'true') return '';
+  const own = element.attributes['aria-label'];
+  if (own?.trim()) return own.trim();
+  if (element.tag === 'img' || (element.tag === 'input' && element.attributes.type === 'image')) {
+    return element.attributes.alt?.trim() || '';
+  }
+  const parts = [element.text, ...element.children.map(accessibleText)];
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function describeElement(element: PageElement): string {
+  const id = element.attributes.id ? `#${element.attributes.id}` : '';
+  const className = element.attributes.class?.trim().split(/\s+/)[0];
+  return `<${element.tag}${id}${className ? `.${className}` : ''}>`;
+}
+
+function isLandmark(element: PageElement): boolean {
+  return LANDMARK_TAGS.has(element.tag) || LANDMARK_ROLES.has(element.attributes.role || '');
+}
+
+// Audits the page's markup and, when a style guide is given, the contrast of
+// the brand palette's own text and button colours
+export function auditAccessibility(html: string, style?: Partial<ExtendedWebsiteStyle>): AccessibilityIssue[] {
+  const lineAt = lineLocator(html);
+  const elements = parseElements(html);
+  const styles = createStyleResolver(parseStylesheets(html));
+  const issues: AccessibilityIssue[] = [];
+
+  const report = (
+    rule: AccessibilityRule,
+    severity: AccessibilityIssue['severity'],
+    message: string,
+    element?: PageElement
+  ) => {
+    issues.push({
+      rule,
+      severity,
+      message,
+      start: element?.start ?? null,
+      end: element?.end ?? null,
+      line: element ? lineAt(element.start) : null,
+    });
+  };
+
+  const content = elements.filter(element => !NON_CONTENT_TAGS.has(element.tag) && !isHidden(element));
+  const body = elements.find(element => element.tag === 'body');
+
+  // Colour contrast of elements with their own text
+  content.forEach(element => {
+    if (!element.text.trim()) return;
+    const background = backgroundColor(element, styles);
+    if (!background) return;
+    const colorValue = styles.inherited(element, 'color');
+    const color = colorValue ? firstColor(colorValue) : '#000000';
+    if (!color) return;
+    const ratio = contrastRatio(color, background);
+    const size = fontSize(element, styles);
+    const large = size >= LARGE_TEXT_SIZE || (size >= LARGE_BOLD_TEXT_SIZE && isBold(element, styles));
+    const minimum = large ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+    if (ratio < minimum) {
+      report(
+        'contrast',
+        'error',
+        `${describeElement(element)} text ${color} on ${background} has a contrast of ${ratio.toFixed(2)}:1; ${large ? 'large ' : ''}text needs ${minimum}:1`,
+        element
+      );
+    }
+  });
+
+  if (style) {
+    const palette = getPalette(style);
+    const pairs: [string, string, string][] = [
+      ['Brand text', palette.text, palette.background],
+      ['Brand text on surface', palette.text, palette.surface],
+      ...(style.styles?.buttonStyles || []).map((button, index): [string, string, string] => [
+        `Brand button ${index + 1}`,
+        normalizeColor(button.color) || '',
+        normalizeColor(button.backgroundColor) || '',
+      ]),
+    ];
+    pairs.forEach(([label, color, background]) => {
+      if (!color || !background) return;
+      const ratio = contrastRatio(color, background);
+      if (ratio < MIN_CONTRAST) {
+        report(
+          'contrast',
+          'warning',
+          `${label} ${color} on ${background} has a contrast of ${ratio.toFixed(2)}:1 in the style guide; normal text needs ${MIN_CONTRAST}:1`
+        );
+      }
+    });
+  }
+
+  // Alternative text
+  content.forEach(element => {
+    const isImageInput = element.tag === 'input' && element.attributes.type?.toLowerCase() === 'image';
+    if (element.tag !== 'img' && element.tag !== 'area' && !isImageInput) return;
+    if (['presentation', 'none'].includes(element.attributes.role || '')) return;
+    const alt = element.attributes.alt;
+    if (alt === undefined) {
+      report('alt-text', 'error', `${describeElement(element)} has no alt attribute`, element);
+    } else if (/\.(png|jpe?g|gif|svg|webp|avif)$/i.test(alt.trim()) || /^(image|photo|picture|img|graphic)$/i.test(alt.trim())) {
+      report('alt-text', 'warning', `Alt text "${alt.trim()}" does not describe the image`, element);
+    }
+  });
+
+  // Heading order
+  const headings = content
+    .map(element => {
+      const level = /^h([1-6])$/.exec(element.tag)?.[1]
+        ?? (element.attributes.role === 'heading' ? element.attributes['aria-level'] || '2' : null);
+      return level ? { element, level: Number(level) } : null;
+    })
+    .filter((heading): heading is { element: PageElement; level: number } => !!heading);
+  if (headings.length && !headings.some(heading => heading.level === 1)) {
+    report('heading-order', 'error', 'The page has no <h1>', headings[0].element);
+  }
+  headings.forEach((heading, index) => {
+    if (!accessibleText(heading.element)) {
+      report('heading-order', 'error', `${describeElement(heading.element)} is empty`, heading.element);
+    }
+    if (heading.level === 1 && headings.findIndex(other => other.level === 1) !== index) {
+      report('heading-order', 'warning', 'The page has more than one <h1>', heading.element);
+    }
+    const previous = headings[index - 1];
+    if (previous && heading.level > previous.level + 1) {
+      report(
+        'heading-order',
+        'warning',
+        `Heading level skips from h${previous.level} to h${heading.level}`,
+        heading.element
+      );
+    }
+  });
+
+  // Landmarks
+  const mains = content.filter(element => element.tag === 'main' || element.attributes.role === 'main');
+  if (!mains.length) {
+    report('landmarks', 'error', 'The page has no <main> landmark', body);
+  } else if (mains.length > 1) {
+    mains.slice(1).forEach(main => report('landmarks', 'error', 'The page has more than one <main> landmark', main));
+  }
+  if (body) {
+    // The outermost blocks with text that no landmark contains
+    const hasLandmark = (element: PageElement): boolean =>
+      isLandmark(element) || element.children.some(hasLandmark);
+    const visit = (element: PageElement) => {
+      if (isLandmark(element) || NON_CONTENT_TAGS.has(element.tag) || isHidden(element)) return;
+      if (!hasLandmark(element)) {
+        if (accessibleText(element)) {
+          report('landmarks', 'warning', `${describeElement(element)} is outside any landmark`, element);
+        }
+        return;
+      }
+      element.children.forEach(visit);
+    };
+    body.children.forEach(visit);
+  }
+
+  // Form labels
+  const labelled = new Set(
+    elements.filter(element => element.tag === 'label' && element.attributes.for).map(element => element.attributes.for)
+  );
+  content.forEach(element => {
+    const type = (element.attributes.type || 'text').toLowerCase();
+    const isField = (element.tag === 'input' && !UNLABELLED_INPUT_TYPES.has(type))
+      || element.tag === 'select'
+      || element.tag === 'textarea';
+    if (!isField) return;
+    let insideLabel = false;
+    for (let node = element.parent; node; node = node.parent) {
+      if (node.tag === 'label') insideLabel = true;
+    }
+    const hasName = insideLabel
+      || (element.attributes.id && labelled.has(element.attributes.id))
+      || element.attributes['aria-label']?.trim()
+      || element.attributes['aria-labelledby']?.trim()
+      || element.attributes.title?.trim();
+    if (!hasName) {
+      report(
+        'form-labels',
+        'error',
+        `${describeElement(element)} has no label${element.attributes.placeholder ? '; a placeholder is not a label' : ''}`,
+        element
+      );
+    }
+  });
+
+  // Link and button text
+  content.forEach(element => {
+    const isLink = element.tag === 'a' && 'href' in element.attributes;
+    const isButton = element.tag === 'button'
+      || (element.tag === 'input' && ['submit', 'button', 'reset'].includes((element.attributes.type || '').toLowerCase()));
+    if (!isLink && !isButton) return;
+    const text = element.tag === 'input'
+      ? element.attributes['aria-label']?.trim() || element.attributes.value?.trim() || ''
+      : accessibleText(element);
+    const name = text || element.attributes['aria-labelledby']?.trim() || element.attributes.title?.trim();
+    if (!name) {
+      report('link-text', 'error', `${isLink ? 'Link' : 'Button'} ${describeElement(element)} has no text`, element);
+    } else if (isLink && GENERIC_LINK_TEXT.has(text.toLowerCase().replace(/[.…!→»›]+$/u, '').trim())) {
+      report('link-text', 'warning', `Link text "${text}" does not say where the link goes`, element);
+    }
+  });
+
+  return issues.sort((a, b) => (a.start ?? -1) - (b.start ?? -1));
+}
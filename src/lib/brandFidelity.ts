@@ -0,0 +1,330 @@
+import { colorDistance, normalizeColor, storedPaletteColors } from './palette';
+import { lineLocator } from './sections';
+import type { ExtendedWebsiteStyle } from './prompt';
+
+// Checks a generated page against the project's style guide. Works on the
+// source text like sections.ts: every finding carries its offsets in the
+// editor content, so fixes are spliced in without reformatting the page.
+
+export type FidelityCategory = 'color' | 'font' | 'radius' | 'button';
+
+export interface FidelityIssue {
+  category: FidelityCategory;
+  property: string;
+  // The offending value as written, e.g. "#ff0000" or "12px"
+  value: string;
+  // Offsets of `value` in the page source
+  start: number;
+  end: number;
+  line: number;
+  // The nearest brand value, or null when there is nothing to snap to
+  suggestion: string | null;
+}
+
+export interface FidelityReport {
+  // Share of checked values that are on brand, 0 to 100
+  score: number;
+  checked: number;
+  issues: FidelityIssue[];
+}
+
+// Colours this close (CIE76 delta E) are indistinguishable, so rounding in
+// the model's output doesn't count as off brand
+const COLOR_TOLERANCE = 3;
+// Radii within this many pixels of a brand radius count as the same
+const RADIUS_TOLERANCE = 1;
+const ROOT_FONT_SIZE = 16;
+
+const COLOR_PROPERTIES = /^(color|background(-color|-image)?|border(-(top|right|bottom|left))?(-color)?|outline(-color)?|fill|stroke|text-decoration(-color)?|caret-color|accent-color|--[\w-]+)$/;
+const RADIUS_PROPERTIES = /^border(-(top|bottom|start|end)-(left|right|start|end))?-radius$/;
+const GENERIC_FONTS = new Set([
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+  'ui-sans-serif',
+  'ui-serif',
+  'ui-monospace',
+  'ui-rounded',
+  '-apple-system',
+  'blinkmacsystemfont',
+  'emoji',
+  'math',
+]);
+// Values that defer to something else rather than pick a font
+const FONT_KEYWORDS = /^(inherit|initial|unset|revert|revert-layer|var\()/i;
+
+// Selectors and elements that style buttons
+const BUTTON_SELECTOR = /(^|[\s,>+~(])(button|\.btn[\w-]*|\.button[\w-]*|\.cta[\w-]*|input\[type=["']?submit)/i;
+const BUTTON_CLASS = /(^|\s)(btn|button|cta)([\w-]*)(\s|$)/i;
+// Hover and focus states are allowed any brand colour, not just the button's
+const STATE_SELECTOR = /:(hover|focus|focus-visible|active|visited|disabled)/i;
+
+const COLOR_TOKEN = /#[0-9a-f]{3,8}\b|(?:rgba?|hsla?)\([^)]*\)|\b[a-z]+\b/gi;
+const LENGTH_TOKEN = /-?\d*\.?\d+(px|rem|em|%)?/gi;
+
+// The brand values a page may use, all normalised
+interface BrandTokens {
+  colors: string[];
+  // Lower-case family names
+  fonts: Set<string>;
+  // The family to snap off-brand fonts to, as written in the style guide
+  primaryFont: string | null;
+  radii: string[];
+  buttonBackgrounds: string[];
+  buttonColors: string[];
+  buttonRadii: string[];
+}
+
+// A CSS declaration in the page source
+interface Declaration {
+  property: string;
+  value: string;
+  // Offset of `value` in the page source
+  start: number;
+  // Whether it styles a button's resting state
+  button: boolean;
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+function colorsIn(value: string): string[] {
+  return (value.match(COLOR_TOKEN) || [])
+    .map(normalizeColor)
+    .filter((hex): hex is string => !!hex);
+}
+
+function fontFamilies(stack: string): string[] {
+  return stack
+    .split(',')
+    .map(family => family.trim().replace(/^["']|["']$/g, '').trim())
+    .filter(Boolean);
+}
+
+function collectBrandTokens(style: Partial<ExtendedWebsiteStyle>): BrandTokens {
+  const styles = style.styles;
+  const buttons = styles?.buttonStyles || [];
+  const colors = [
+    ...(style.colors || []),
+    ...storedPaletteColors(style),
+    ...buttons.flatMap(button => [button.backgroundColor, button.color]),
+    ...(styles?.headerStyles || []).map(header => header.color),
+    ...(styles?.gradients || []).flatMap(colorsIn),
+    style.headerBackgroundColor || '',
+    style.footerBackgroundColor || '',
+    ...(style.sectionBackgroundColors || []),
+  ];
+  const stacks = [
+    ...(style.fonts || []),
+    ...(style.fontFaces || []).map(face => face.family),
+    ...(styles?.headerStyles || []).map(header => header.fontFamily),
+  ].filter(Boolean);
+  const families = stacks.flatMap(fontFamilies).filter(family => !GENERIC_FONTS.has(family.toLowerCase()));
+
+  return {
+    colors: unique(colors.flatMap(colorsIn)),
+    fonts: new Set(families.map(family => family.toLowerCase())),
+    primaryFont: families[0] || null,
+    radii: unique([...(styles?.borderRadius || []), ...buttons.map(button => button.borderRadius)].filter(Boolean)),
+    buttonBackgrounds: unique(buttons.flatMap(button => colorsIn(button.backgroundColor || ''))),
+    buttonColors: unique(buttons.flatMap(button => colorsIn(button.color || ''))),
+    buttonRadii: unique(buttons.map(button => button.borderRadius).filter(Boolean)),
+  };
+}
+
+// Splits a declaration block into declarations; `offset` is where the block
+// starts in the page source
+function parseDeclarations(block: string, offset: number, button: boolean): Declaration[] {
+  const declarations: Declaration[] = [];
+  for (const match of block.matchAll(/([-\w]+)\s*:([^;]*)/g)) {
+    const raw = match[2];
+    const value = raw.trim();
+    if (!value) continue;
+    declarations.push({
+      property: match[1].toLowerCase(),
+      value,
+      start: offset + (match.index ?? 0) + match[0].length - raw.length + raw.indexOf(value),
+      button,
+    });
+  }
+  return declarations;
+}
+
+// Every declaration in <style> elements and style attributes
+function collectDeclarations(html: string): Declaration[] {
+  const declarations: Declaration[] = [];
+
+  for (const match of html.matchAll(/(<style\b[^>]*>)([\s\S]*?)<\/style\s*>/gi)) {
+    const cssStart = (match.index ?? 0) + match[1].length;
+    // Blank out comments, keeping offsets intact
+    const css = match[2].replace(/\/\*[\s\S]*?\*\//g, comment => ' '.repeat(comment.length));
+    // Innermost rules only, so rules nested in @media are found too
+    for (const rule of css.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+      const selector = rule[1].trim();
+      // @font-face declares families rather than using them
+      if (/^@font-face/i.test(selector)) continue;
+      const button = BUTTON_SELECTOR.test(selector) && !STATE_SELECTOR.test(selector);
+      const blockStart = cssStart + (rule.index ?? 0) + rule[1].length + 1;
+      declarations.push(...parseDeclarations(rule[2], blockStart, button));
+    }
+  }
+
+  const skip = /<!--[\s\S]*?-->|<(script|style)\b[\s\S]*?<\/\1\s*>/gi;
+  const withoutRawText = html.replace(skip, text => ' '.repeat(text.length));
+  for (const tag of withoutRawText.matchAll(/<([a-z][\w-]*)\b([^>]*)>/gi)) {
+    const attributes = tag[2];
+    const style = /\sstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(attributes);
+    if (!style) continue;
+    const className = /\sclass\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(attributes);
+    const button = tag[1].toLowerCase() === 'button' || BUTTON_CLASS.test(className?.[1] ?? className?.[2] ?? '');
+    const valueStart = (tag.index ?? 0) + 1 + tag[1].length + style.index + style[0].length - (style[1] ?? style[2]).length - 1;
+    declarations.push(...parseDeclarations(style[1] ?? style[2], valueStart, button));
+  }
+
+  return declarations;
+}
+
+function nearestColor(hex: string, candidates: string[]): { color: string; distance: number } | null {
+  let nearest: { color: string; distance: number } | null = null;
+  for (const color of candidates) {
+    const distance = colorDistance(hex, color);
+    if (!nearest || distance < nearest.distance) nearest = { color, distance };
+  }
+  return nearest;
+}
+
+// Pixels, or null for percentages and anything else that can't be compared
+function toPixels(length: string): number | null {
+  const match = /^(-?\d*\.?\d+)(px|rem|em)?$/i.exec(length.trim());
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2] && match[2].toLowerCase() !== 'px' ? value * ROOT_FONT_SIZE : value;
+}
+
+function nearestRadius(length: string, candidates: string[]): { radius: string; distance: number } | null {
+  const pixels = toPixels(length);
+  let nearest: { radius: string; distance: number } | null = null;
+  for (const radius of candidates) {
+    // Brand radii are usually single values; shorthands compare by their first
+    const first = radius.trim().split(/\s+/)[0];
+    const candidate = toPixels(first);
+    const distance = pixels === null || candidate === null
+      ? (first === length ? 0 : Infinity)
+      : Math.abs(candidate - pixels);
+    if (distance !== Infinity && (!nearest || distance < nearest.distance)) {
+      nearest = { radius: first, distance };
+    }
+  }
+  return nearest;
+}
+
+// Reports every colour, font family and radius in the page's CSS that is not
+// in the style guide. Categories the style guide has no values for are not
+// checked. Button backgrounds, text colours and radii are held to the site's
+// button styles when it has any.
+export function analyzeBrandFidelity(html: string, style: Partial<ExtendedWebsiteStyle>): FidelityReport {
+  const brand = collectBrandTokens(style);
+  const lineAt = lineLocator(html);
+
+  const issues: FidelityIssue[] = [];
+  let checked = 0;
+  const report = (
+    declaration: Declaration,
+    category: FidelityCategory,
+    value: string,
+    index: number,
+    suggestion: string | null
+  ) => {
+    const start = declaration.start + index;
+    issues.push({
+      category,
+      property: declaration.property,
+      value,
+      start,
+      end: start + value.length,
+      line: lineAt(start),
+      suggestion,
+    });
+  };
+
+  for (const declaration of collectDeclarations(html)) {
+    const { property, value } = declaration;
+
+    if (COLOR_PROPERTIES.test(property) && brand.colors.length) {
+      const buttonPalette = !declaration.button
+        ? null
+        : /^background/.test(property) && brand.buttonBackgrounds.length
+          ? brand.buttonBackgrounds
+          : property === 'color' && brand.buttonColors.length
+            ? brand.buttonColors
+            : null;
+      const allowed = buttonPalette || brand.colors;
+      // Image file names ("red.png") are not colours
+      const colorValue = value.replace(/url\([^)]*\)/gi, url => ' '.repeat(url.length));
+      for (const token of colorValue.matchAll(COLOR_TOKEN)) {
+        const hex = normalizeColor(token[0]);
+        if (!hex) continue;
+        checked++;
+        const nearest = nearestColor(hex, allowed);
+        if (nearest && nearest.distance > COLOR_TOLERANCE) {
+          report(declaration, buttonPalette ? 'button' : 'color', token[0], token.index ?? 0, nearest.color);
+        }
+      }
+    }
+
+    if ((property === 'font-family' || property === 'font') && brand.fonts.size) {
+      // In the shorthand the family list follows the size (and line height)
+      const shorthand = property === 'font'
+        ? /(?:^|\s)[\d.]+(?:px|rem|em|%|pt|vw|vh|ch|ex)(?:\s*\/\s*[\d.]+[a-z%]*)?\s+(\S[\s\S]*)$/i.exec(value)
+        : null;
+      const stack = property === 'font' ? shorthand?.[1] : value;
+      if (stack && !FONT_KEYWORDS.test(stack)) {
+        const family = stack.split(',')[0].trim();
+        const name = family.replace(/^["']|["']$/g, '').trim();
+        checked++;
+        if (!brand.fonts.has(name.toLowerCase())) {
+          const stackIndex = shorthand ? value.length - stack.length : 0;
+          const suggestion = brand.primaryFont && (/\s/.test(brand.primaryFont) ? `'${brand.primaryFont}'` : brand.primaryFont);
+          report(declaration, 'font', family, stackIndex, suggestion);
+        }
+      }
+    }
+
+    const radii = declaration.button && brand.buttonRadii.length ? brand.buttonRadii : brand.radii;
+    if (RADIUS_PROPERTIES.test(property) && radii.length) {
+      for (const token of value.matchAll(LENGTH_TOKEN)) {
+        // Square corners and circles are shapes rather than a brand choice
+        if (parseFloat(token[0]) === 0 || token[0] === '50%') continue;
+        checked++;
+        const nearest = nearestRadius(token[0], radii);
+        if (!nearest || nearest.distance > RADIUS_TOLERANCE) {
+          const category = declaration.button && brand.buttonRadii.length ? 'button' : 'radius';
+          report(declaration, category, token[0], token.index ?? 0, nearest?.radius ?? radii[0]);
+        }
+      }
+    }
+  }
+
+  return {
+    score: checked ? Math.round((100 * (checked - issues.length)) / checked) : 100,
+    checked,
+    issues,
+  };
+}
+
+// Replaces every off-brand value that has a suggestion with it. Returns the
+// page unchanged when there is nothing to fix.
+export function fixBrandFidelity(html: string, style: Partial<ExtendedWebsiteStyle>): { html: string; fixed: number } {
+  const fixes = analyzeBrandFidelity(html, style)
+    .issues.filter(issue => issue.suggestion !== null)
+    .sort((a, b) => b.start - a.start);
+  let fixed = html;
+  fixes.forEach(issue => {
+    fixed = fixed.slice(0, issue.start) + issue.suggestion + fixed.slice(issue.end);
+  });
+  return { html: fixed, fixed: fixes.length };
+}
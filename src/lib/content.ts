@@ -0,0 +1,577 @@
+import type {
+  CallToAction,
+  ContentFormat,
+  ContentSection,
+  FaqItem,
+  FeatureItem,
+  MarketingContent,
+  PricingTier,
+  StructuredContent,
+  Testimonial,
+} from '../types/content';
+
+// Runs in the browser (import) and on the server (prompt building), so
+// nothing here may touch the DOM.
+
+// A flat run of text pieces in document order; buildStructuredContent turns
+// it into the page outline
+export type ContentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'bullet'; text: string }
+  | { type: 'cta'; text: string };
+
+const CONTENT_FORMATS: ContentFormat[] = ['markdown', 'docx', 'pdf', 'text'];
+
+const BULLET_PATTERN = /^\s*(?:[-*+•◦▪‣–]|\d{1,2}[.)])\s+/;
+// Lines the author marked explicitly, e.g. "CTA: Book a demo"
+const LABELLED_CTA_PATTERN = /^(?:cta|button|call to action)\s*:\s*/i;
+// Short imperative phrases that read as button labels
+const CTA_PATTERN = /^(?:get|start|try|sign up|book|request|contact|download|join|buy|shop|learn more|subscribe|schedule|claim|register|talk to|order)\b/i;
+const MAX_CTA_WORDS = 5;
+const MAX_HEADING_LENGTH = 80;
+const MAX_SUBHEADLINE_LENGTH = 200;
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function stripInlineMarkdown(text: string): string {
+  return collapseWhitespace(
+    text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, '$2')
+      .replace(/\*(\S(?:[^*]*\S)?)\*/g, '$1')
+      .replace(/(^|\W)_(\S(?:[^_]*\S)?)_(?!\w)/g, '$1$2')
+      .replace(/`([^`]+)`/g, '$1')
+  );
+}
+
+function isCallToAction(text: string): boolean {
+  return (
+    CTA_PATTERN.test(text) &&
+    text.split(/\s+/).length <= MAX_CTA_WORDS &&
+    !/[.,;:]$/.test(text)
+  );
+}
+
+// A short line standing on its own, without closing punctuation, that is
+// not a button label
+export function looksLikeHeading(line: string): boolean {
+  const text = line.trim();
+  return (
+    text.length > 0 &&
+    text.length <= MAX_HEADING_LENGTH &&
+    !/[.,;!?]$/.test(text) &&
+    !BULLET_PATTERN.test(text) &&
+    !LABELLED_CTA_PATTERN.test(text) &&
+    !isCallToAction(text)
+  );
+}
+
+// Paragraph text, unless the author labelled it as a call to action
+export function textBlock(text: string): ContentBlock {
+  const trimmed = collapseWhitespace(text);
+  if (LABELLED_CTA_PATTERN.test(trimmed)) {
+    return { type: 'cta', text: trimmed.replace(LABELLED_CTA_PATTERN, '') };
+  }
+  return { type: 'paragraph', text: trimmed };
+}
+
+export function parseMarkdown(markdown: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const raw = paragraph.join(' ').trim();
+    paragraph = [];
+    if (!raw) return;
+    // A paragraph that is nothing but a link is a button
+    if (/^\[[^\]]+\]\([^)]*\)$/.test(raw)) {
+      blocks.push({ type: 'cta', text: stripInlineMarkdown(raw) });
+    } else {
+      const block = textBlock(raw);
+      blocks.push({ ...block, text: stripInlineMarkdown(block.text) });
+    }
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    // Code is not marketing copy
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)[\s#]*$/.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: stripInlineMarkdown(heading[2]) });
+      continue;
+    }
+    // Setext heading: a line of = or - under the text
+    if (/^\s*(=+|-+)\s*$/.test(line) && paragraph.length) {
+      blocks.push({
+        type: 'heading',
+        level: line.trim().startsWith('=') ? 1 : 2,
+        text: stripInlineMarkdown(paragraph.join(' ')),
+      });
+      paragraph = [];
+      continue;
+    }
+    // Thematic break
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      continue;
+    }
+    if (BULLET_PATTERN.test(line)) {
+      flush();
+      blocks.push({ type: 'bullet', text: stripInlineMarkdown(line.replace(BULLET_PATTERN, '')) });
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    // Indented continuation of a list item
+    const last = blocks[blocks.length - 1];
+    if (/^\s{2,}/.test(line) && !paragraph.length && last?.type === 'bullet') {
+      last.text = `${last.text} ${stripInlineMarkdown(line)}`;
+      continue;
+    }
+    paragraph.push(line.replace(/^\s*>\s?/, ''));
+  }
+  flush();
+
+  return blocks.filter(block => block.text);
+}
+
+// Plain text has no markup, so structure is guessed: paragraphs are separated
+// by blank lines, and a short line standing alone is a subhead
+export function parsePlainText(text: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+
+  text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .forEach(chunk => {
+      const lines = chunk.split('\n').filter(line => line.trim());
+      if (lines.length === 1 && looksLikeHeading(lines[0])) {
+        blocks.push({ type: 'heading', level: 2, text: collapseWhitespace(lines[0]).replace(/:$/, '') });
+        return;
+      }
+
+      const chunkStart = blocks.length;
+      let paragraph: string[] = [];
+      const flush = () => {
+        if (paragraph.length) blocks.push(textBlock(paragraph.join(' ')));
+        paragraph = [];
+      };
+      lines.forEach((line, index) => {
+        const last = blocks[blocks.length - 1];
+        if (/:\s*$/.test(line) && looksLikeHeading(line) && BULLET_PATTERN.test(lines[index + 1] || '')) {
+          // "Features:" introducing a list
+          flush();
+          blocks.push({ type: 'heading', level: 2, text: collapseWhitespace(line).replace(/:$/, '') });
+        } else if (BULLET_PATTERN.test(line)) {
+          flush();
+          blocks.push({ type: 'bullet', text: collapseWhitespace(line.replace(BULLET_PATTERN, '')) });
+        } else if (blocks.length > chunkStart && !paragraph.length && last.type === 'bullet' && /^(\s+|[a-z])/.test(line)) {
+          // A wrapped list item
+          last.text = `${last.text} ${collapseWhitespace(line)}`;
+        } else if (LABELLED_CTA_PATTERN.test(line.trim())) {
+          flush();
+          blocks.push(textBlock(line));
+        } else {
+          paragraph.push(line);
+        }
+      });
+      flush();
+    });
+
+  return blocks.filter(block => block.text);
+}
+
+// The first heading becomes the headline and every later one starts a
+// section. Text before the first section is the subheadline and intro.
+export function buildStructuredContent(
+  blocks: ContentBlock[],
+  source?: StructuredContent['source']
+): StructuredContent {
+  const content: StructuredContent = { headline: '', intro: [], sections: [], ctas: [], source };
+  let section: ContentSection | null = null;
+
+  for (const block of blocks) {
+    if (block.type === 'cta' || (block.type === 'paragraph' && isCallToAction(block.text))) {
+      if (!content.ctas.includes(block.text)) content.ctas.push(block.text);
+      continue;
+    }
+    if (block.type === 'heading') {
+      if (!content.headline) {
+        content.headline = block.text;
+      } else {
+        section = { heading: block.text, paragraphs: [], bullets: [] };
+        content.sections.push(section);
+      }
+      continue;
+    }
+    // Documents that start without a heading open with the headline
+    if (!content.headline && block.type === 'paragraph' && block.text.length <= MAX_HEADING_LENGTH) {
+      content.headline = block.text;
+      continue;
+    }
+    if (block.type === 'bullet' && !section) {
+      // A list before any subhead gets a section without a heading
+      section = { heading: '', paragraphs: [], bullets: [] };
+      content.sections.push(section);
+    }
+    if (section) {
+      section[block.type === 'bullet' ? 'bullets' : 'paragraphs'].push(block.text);
+    } else if (
+      !content.subheadline &&
+      !content.intro.length &&
+      block.text.length <= MAX_SUBHEADLINE_LENGTH
+    ) {
+      content.subheadline = block.text;
+    } else {
+      content.intro.push(block.text);
+    }
+  }
+
+  return content;
+}
+
+export function isEmptyContent(content: StructuredContent): boolean {
+  return !content.headline && !content.intro.length && !content.sections.length && !content.ctas.length;
+}
+
+const FEATURES_HEADING = /feature|benefit|why|what you get|how it works/i;
+const TESTIMONIALS_HEADING = /testimonial|review|customers|what .* say|loved by/i;
+const PRICING_HEADING = /pricing|plans?\b|prices?\b/i;
+const FAQ_HEADING = /faq|frequently asked|questions/i;
+// "Starter: $9 per month", "Pro - Free"
+const PRICE_PATTERN = /^(.{1,40}?)\s*(?::|\s[–—-]\s)\s*((?:[$€£¥]|free\b|\d).*)$/i;
+// Links the page may use; anything else is dropped
+const LINK_PATTERN = /^(https?:\/\/|mailto:|tel:|#|\/)/i;
+
+export function emptyCallToAction(): CallToAction {
+  return { label: '', url: '' };
+}
+
+export function emptyMarketingContent(): MarketingContent {
+  return {
+    hero: { headline: '', subheadline: '', cta: emptyCallToAction() },
+    features: { heading: '', items: [] },
+    testimonials: [],
+    pricing: [],
+    faq: [],
+    cta: { heading: '', text: '', button: emptyCallToAction() },
+    footerLinks: [],
+    extraSections: [],
+  };
+}
+
+// "Fast setup: ready in minutes" -> title and description
+function splitTitle(text: string): FeatureItem {
+  const match = /^(.{1,60}?)\s*(?::|\s[–—-]\s)\s*(.+)$/.exec(text);
+  return match ? { title: match[1], description: match[2] } : { title: text, description: '' };
+}
+
+function toTestimonials(section: ContentSection): Testimonial[] {
+  const testimonials: Testimonial[] = [];
+  [...section.paragraphs, ...section.bullets].forEach(text => {
+    // "— Jane Doe, CEO at Acme", on its own line or after the quote
+    const attribution = /(?:^|\s)[—–-]\s*([^,—–]+?)(?:,\s*(.+))?$/.exec(text);
+    const quote = (attribution ? text.slice(0, attribution.index) : text).trim().replace(/^["“]|["”]$/g, '');
+    const author = attribution?.[1].trim() || '';
+    const role = attribution?.[2]?.trim() || '';
+    const previous = testimonials[testimonials.length - 1];
+    if (!quote && previous && !previous.author) {
+      Object.assign(previous, { author, role });
+    } else if (quote) {
+      testimonials.push({ quote, author, role });
+    }
+  });
+  return testimonials;
+}
+
+// A question ends with "?"; the text after it, up to the next one, answers it
+function toFaq(section: ContentSection): FaqItem[] {
+  const faq: FaqItem[] = [];
+  [...section.paragraphs, ...section.bullets].forEach(text => {
+    const question = /^(.+?\?)\s*(.*)$/.exec(text);
+    if (question) {
+      faq.push({ question: question[1], answer: question[2] });
+    } else if (faq.length) {
+      const last = faq[faq.length - 1];
+      last.answer = last.answer ? `${last.answer} ${text}` : text;
+    }
+  });
+  return faq;
+}
+
+function toPricing(section: ContentSection): PricingTier[] {
+  return [...section.bullets, ...section.paragraphs]
+    .map(text => PRICE_PATTERN.exec(text))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map(match => {
+      const [, name, rest] = match;
+      const period = /\s*(?:\/|per\s)\s*(month|year|week|user|seat)\w*\s*$/i.exec(rest);
+      return {
+        name,
+        price: period ? rest.slice(0, period.index) : rest,
+        period: period ? `per ${period[1].toLowerCase()}` : '',
+        features: [],
+        cta: emptyCallToAction(),
+        highlighted: false,
+      };
+    });
+}
+
+// Fills the page blocks from an imported document, going by its subheads.
+// Sections that match no block are kept as extra sections.
+export function toMarketingContent(structured: StructuredContent): MarketingContent {
+  const content = emptyMarketingContent();
+  content.source = structured.source;
+  content.hero.headline = structured.headline;
+  content.hero.subheadline = structured.subheadline || structured.intro[0] || '';
+  content.hero.cta.label = structured.ctas[0] || '';
+  content.cta.button.label = structured.ctas[1] || structured.ctas[0] || '';
+
+  const intro = structured.subheadline ? structured.intro : structured.intro.slice(1);
+  if (intro.length) {
+    content.extraSections.push({ heading: '', paragraphs: intro, bullets: [] });
+  }
+
+  structured.sections.forEach(section => {
+    if (FAQ_HEADING.test(section.heading) && !content.faq.length) {
+      content.faq = toFaq(section);
+      if (content.faq.length) return;
+    }
+    if (TESTIMONIALS_HEADING.test(section.heading) && !content.testimonials.length) {
+      content.testimonials = toTestimonials(section);
+      if (content.testimonials.length) return;
+    }
+    if (PRICING_HEADING.test(section.heading) && !content.pricing.length) {
+      content.pricing = toPricing(section);
+      if (content.pricing.length) return;
+    }
+    if (
+      !content.features.items.length &&
+      (FEATURES_HEADING.test(section.heading) || (section.bullets.length && !section.paragraphs.length))
+    ) {
+      content.features.heading = section.heading;
+      content.features.items = (section.bullets.length ? section.bullets : section.paragraphs).map(splitTitle);
+      return;
+    }
+    content.extraSections.push(section);
+  });
+
+  return content;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+}
+
+function objectList<T>(value: unknown, map: (item: JsonObject) => T, keep: (item: T) => boolean): T[] {
+  return Array.isArray(value) ? value.filter(isObject).map(map).filter(keep) : [];
+}
+
+function callToAction(value: unknown): CallToAction {
+  const data = isObject(value) ? value : {};
+  const url = text(data.url);
+  return { label: text(data.label), url: LINK_PATTERN.test(url) ? url : '' };
+}
+
+function contentSource(value: unknown): StructuredContent['source'] {
+  return isObject(value) && typeof value.name === 'string' && CONTENT_FORMATS.includes(value.format as ContentFormat)
+    ? { name: value.name, format: value.format as ContentFormat }
+    : undefined;
+}
+
+function contentSections(value: unknown): ContentSection[] {
+  return objectList(
+    value,
+    item => ({ heading: text(item.heading), paragraphs: stringList(item.paragraphs), bullets: stringList(item.bullets) }),
+    section => !!(section.heading || section.paragraphs.length || section.bullets.length)
+  );
+}
+
+// Structured content saved as JSON before the page blocks existed
+function parseStructuredContent(data: JsonObject): StructuredContent {
+  return {
+    headline: text(data.headline),
+    subheadline: text(data.subheadline) || undefined,
+    intro: stringList(data.intro),
+    sections: contentSections(data.sections),
+    ctas: stringList(data.ctas),
+    source: contentSource(data.source),
+  };
+}
+
+// Checks content that arrived as JSON (request bodies, stored versions) and
+// trims it, dropping empty list entries and unusable links. Returns null if
+// it is not marketing content.
+export function normalizeMarketingContent(value: unknown): MarketingContent | null {
+  if (!isObject(value) || !isObject(value.hero)) return null;
+  const features = isObject(value.features) ? value.features : {};
+  const cta = isObject(value.cta) ? value.cta : {};
+
+  return {
+    hero: {
+      headline: text(value.hero.headline),
+      subheadline: text(value.hero.subheadline),
+      cta: callToAction(value.hero.cta),
+    },
+    features: {
+      heading: text(features.heading),
+      items: objectList(
+        features.items,
+        item => ({ title: text(item.title), description: text(item.description) }),
+        item => !!(item.title || item.description)
+      ),
+    },
+    testimonials: objectList(
+      value.testimonials,
+      item => ({ quote: text(item.quote), author: text(item.author), role: text(item.role) }),
+      item => !!item.quote
+    ),
+    pricing: objectList(
+      value.pricing,
+      item => ({
+        name: text(item.name),
+        price: text(item.price),
+        period: text(item.period),
+        features: stringList(item.features),
+        cta: callToAction(item.cta),
+        highlighted: item.highlighted === true,
+      }),
+      tier => !!(tier.name || tier.price)
+    ),
+    faq: objectList(
+      value.faq,
+      item => ({ question: text(item.question), answer: text(item.answer) }),
+      item => !!item.question
+    ),
+    cta: {
+      heading: text(cta.heading),
+      text: text(cta.text),
+      button: callToAction(cta.button),
+    },
+    footerLinks: objectList(value.footerLinks, callToAction, link => !!link.label),
+    extraSections: contentSections(value.extraSections),
+    source: contentSource(value.source),
+  };
+}
+
+export function isEmptyMarketingContent(content: MarketingContent): boolean {
+  return !describeContent(content);
+}
+
+// Version.marketing_content holds the content as JSON. Versions saved before
+// that hold plain text and give null.
+export function parseMarketingContent(raw: string | null | undefined): MarketingContent | null {
+  if (!raw?.trim().startsWith('{')) return null;
+  try {
+    const data: unknown = JSON.parse(raw);
+    if (isObject(data) && typeof data.headline === 'string') {
+      return toMarketingContent(parseStructuredContent(data));
+    }
+    return normalizeMarketingContent(data);
+  } catch {
+    return null;
+  }
+}
+
+function describeLink({ label, url }: CallToAction): string {
+  return `"${label}"${url ? ` linking to ${url}` : ''}`;
+}
+
+// The same text for the same content every time, so regenerating a page
+// sends the model identical copy. Blocks without content are left out.
+export function describeContent(content: MarketingContent): string {
+  const blocks: string[][] = [];
+  const { hero, features, cta } = content;
+
+  if (hero.headline || hero.subheadline || hero.cta.label) {
+    blocks.push([
+      'Hero:',
+      ...(hero.headline ? [`  Headline: ${hero.headline}`] : []),
+      ...(hero.subheadline ? [`  Subheadline: ${hero.subheadline}`] : []),
+      ...(hero.cta.label ? [`  Button: ${describeLink(hero.cta)}`] : []),
+    ]);
+  }
+  if (features.items.length) {
+    blocks.push([
+      `Features${features.heading ? ` (section heading: ${features.heading})` : ''}:`,
+      ...features.items.map((item, i) => `  ${i + 1}. ${item.title}${item.description ? `: ${item.description}` : ''}`),
+    ]);
+  }
+  if (content.testimonials.length) {
+    blocks.push([
+      'Testimonials:',
+      ...content.testimonials.map((item, i) =>
+        `  ${i + 1}. "${item.quote}"${item.author ? ` - ${item.author}${item.role ? `, ${item.role}` : ''}` : ''}`
+      ),
+    ]);
+  }
+  if (content.pricing.length) {
+    blocks.push([
+      'Pricing tiers:',
+      ...content.pricing.flatMap((tier, i) => [
+        `  ${i + 1}. ${tier.name}: ${tier.price}${tier.period ? ` ${tier.period}` : ''}${tier.highlighted ? ' (highlighted)' : ''}`,
+        ...(tier.features.length ? [`     Includes: ${tier.features.join('; ')}`] : []),
+        ...(tier.cta.label ? [`     Button: ${describeLink(tier.cta)}`] : []),
+      ]),
+    ]);
+  }
+  if (content.faq.length) {
+    blocks.push([
+      'FAQ:',
+      ...content.faq.flatMap(item => [`  Q: ${item.question}`, ...(item.answer ? [`  A: ${item.answer}`] : [])]),
+    ]);
+  }
+  if (cta.heading || cta.text || cta.button.label) {
+    blocks.push([
+      'Closing call to action:',
+      ...(cta.heading ? [`  Heading: ${cta.heading}`] : []),
+      ...(cta.text ? [`  Text: ${cta.text}`] : []),
+      ...(cta.button.label ? [`  Button: ${describeLink(cta.button)}`] : []),
+    ]);
+  }
+  if (content.footerLinks.length) {
+    blocks.push(['Footer links:', ...content.footerLinks.map(link => `  - ${describeLink(link)}`)]);
+  }
+  if (content.extraSections.length) {
+    blocks.push([
+      'Other sections:',
+      ...content.extraSections.flatMap(section => [
+        `  ${section.heading || '(no heading)'}`,
+        ...section.paragraphs.map(paragraph => `    ${paragraph}`),
+        ...section.bullets.map(bullet => `    - ${bullet}`),
+      ]),
+    ]);
+  }
+
+  return blocks.map(lines => lines.join('\n')).join('\n\n');
+}
+
+// Readable text for a version's marketing_content, structured or not
+export function describeMarketingContent(raw: string | null): string {
+  const content = parseMarketingContent(raw);
+  return content ? describeContent(content) : raw || '';
+}
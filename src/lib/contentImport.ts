@@ -0,0 +1,287 @@
+import JSZip from 'jszip';
+import {
+  buildStructuredContent,
+  isEmptyContent,
+  looksLikeHeading,
+  parseMarkdown,
+  parsePlainText,
+  textBlock,
+  type ContentBlock,
+} from './content';
+import type { ContentFormat, StructuredContent } from '../types/content';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+
+// For the file input's accept attribute
+export const CONTENT_FILE_TYPES = [
+  '.md',
+  '.markdown',
+  '.txt',
+  '.docx',
+  '.pdf',
+  'text/markdown',
+  'text/plain',
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+].join(',');
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// A line of a PDF page as pdf.js lays it out
+interface PdfLine {
+  text: string;
+  // Font height in PDF units
+  size: number;
+  y: number;
+  page: number;
+}
+
+// Body text is this much smaller than a heading
+const PDF_HEADING_RATIO = 1.15;
+// A larger vertical gap than this (in line heights) starts a paragraph
+const PDF_PARAGRAPH_GAP = 1.6;
+
+export function detectContentFormat(file: File): ContentFormat | null {
+  switch (file.name.split('.').pop()?.toLowerCase()) {
+    case 'md':
+    case 'markdown':
+      return 'markdown';
+    case 'txt':
+      return 'text';
+    case 'docx':
+      return 'docx';
+    case 'pdf':
+      return 'pdf';
+  }
+  switch (file.type) {
+    case 'text/markdown':
+      return 'markdown';
+    case 'text/plain':
+      return 'text';
+    case 'application/pdf':
+      return 'pdf';
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      return 'docx';
+    default:
+      return null;
+  }
+}
+
+function wordChild(element: Element | null | undefined, name: string): Element | undefined {
+  return Array.from(element?.children || []).find(
+    child => child.namespaceURI === WORD_NAMESPACE && child.localName === name
+  );
+}
+
+function wordValue(element: Element | undefined): string | null {
+  return element?.getAttributeNS(WORD_NAMESPACE, 'val') ?? null;
+}
+
+// Maps paragraph style IDs to heading levels. IDs are localised ("Heading1",
+// "berschrift1"...), so the style's name and outline level are used instead.
+function readHeadingStyles(styles: Document): Map<string, number> {
+  const levels = new Map<string, number>();
+  Array.from(styles.getElementsByTagNameNS(WORD_NAMESPACE, 'style')).forEach(style => {
+    const id = style.getAttributeNS(WORD_NAMESPACE, 'styleId');
+    if (!id) return;
+    const name = wordValue(wordChild(style, 'name')) || '';
+    const outline = wordValue(wordChild(wordChild(style, 'pPr'), 'outlineLvl'));
+    const heading = /^heading\s*(\d)$/i.exec(name);
+    if (/^title$/i.test(name)) {
+      levels.set(id, 1);
+    } else if (heading) {
+      levels.set(id, Number(heading[1]));
+    } else if (outline !== null && Number(outline) < 9) {
+      levels.set(id, Number(outline) + 1);
+    }
+  });
+  return levels;
+}
+
+function isBold(run: Element): boolean {
+  const bold = wordChild(wordChild(run, 'rPr'), 'b');
+  return !!bold && !['0', 'false'].includes(wordValue(bold) || '');
+}
+
+async function parseDocx(data: ArrayBuffer): Promise<ContentBlock[]> {
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('This file is not a Word document');
+  }
+  const stylesXml = await zip.file('word/styles.xml')?.async('string');
+
+  const parser = new DOMParser();
+  const headingLevels = stylesXml
+    ? readHeadingStyles(parser.parseFromString(stylesXml, 'application/xml'))
+    : new Map<string, number>();
+  const document = parser.parseFromString(documentXml, 'application/xml');
+
+  const blocks: ContentBlock[] = [];
+  Array.from(document.getElementsByTagNameNS(WORD_NAMESPACE, 'p')).forEach(paragraph => {
+    // Text boxes are stored twice; skip the legacy copy
+    for (let parent = paragraph.parentElement; parent; parent = parent.parentElement) {
+      if (parent.localName === 'Fallback') return;
+    }
+
+    const runs = Array.from(paragraph.getElementsByTagNameNS(WORD_NAMESPACE, 'r')).filter(
+      run => run.getElementsByTagNameNS(WORD_NAMESPACE, 't').length
+    );
+    const text = runs
+      .map(run =>
+        Array.from(run.children)
+          .map(child => (child.localName === 't' ? child.textContent || '' : ['tab', 'br', 'cr'].includes(child.localName) ? ' ' : ''))
+          .join('')
+      )
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) return;
+
+    const properties = wordChild(paragraph, 'pPr');
+    const styleId = wordValue(wordChild(properties, 'pStyle'));
+    const level = styleId ? headingLevels.get(styleId) : undefined;
+    if (level !== undefined) {
+      blocks.push({ type: 'heading', level, text });
+    } else if (wordChild(properties, 'numPr') || (styleId && /list/i.test(styleId))) {
+      blocks.push({ type: 'bullet', text });
+    } else if (runs.every(isBold) && looksLikeHeading(text)) {
+      // Subheads are often just bold text rather than a heading style
+      blocks.push({ type: 'heading', level: 2, text });
+    } else {
+      blocks.push(textBlock(text));
+    }
+  });
+  return blocks;
+}
+
+async function readPdfLines(data: ArrayBuffer): Promise<PdfLine[]> {
+  // Loaded on demand; pdf.js is large and only needed here. The worker URL
+  // comes from Vite, so it is loaded here too and the rest of this module
+  // runs without Vite (e.g. in tests).
+  const [pdfjs, { default: pdfWorkerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const lines: PdfLine[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { items } = await page.getTextContent();
+      let line: PdfLine | null = null;
+      for (const item of items) {
+        if (!('str' in item)) continue;
+        const size = Math.hypot(item.transform[2], item.transform[3]);
+        const y = item.transform[5];
+        if (line && Math.abs(line.y - y) > Math.max(line.size, size) / 2) {
+          lines.push(line);
+          line = null;
+        }
+        if (!line) {
+          line = { text: '', size: 0, y, page: pageNumber };
+        }
+        line.text += item.str;
+        line.size = Math.max(line.size, size);
+        if (item.hasEOL) {
+          lines.push(line);
+          line = null;
+        }
+      }
+      if (line) lines.push(line);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return lines.filter(line => line.text.trim());
+}
+
+// Only the text layer is read, so scanned PDFs come back empty. Headings are
+// told apart from body text by font size.
+async function parsePdf(data: ArrayBuffer): Promise<ContentBlock[]> {
+  const lines = await readPdfLines(data);
+  if (!lines.length) return [];
+
+  // The size most of the text is set in
+  const weights = new Map<number, number>();
+  lines.forEach(line => {
+    const size = Math.round(line.size);
+    weights.set(size, (weights.get(size) || 0) + line.text.length);
+  });
+  const bodySize = Array.from(weights.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  const isLarge = (line: PdfLine) => line.size >= bodySize * PDF_HEADING_RATIO;
+  const largest = Math.max(...lines.map(line => line.size));
+
+  const paragraphs: PdfLine[][] = [];
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    const startsParagraph =
+      !previous ||
+      previous.page !== line.page ||
+      isLarge(previous) !== isLarge(line) ||
+      Math.abs(previous.y - line.y) > previous.size * PDF_PARAGRAPH_GAP;
+    if (startsParagraph) {
+      paragraphs.push([line]);
+    } else {
+      paragraphs[paragraphs.length - 1].push(line);
+    }
+  });
+
+  const blocks: ContentBlock[] = [];
+  paragraphs.forEach(paragraph => {
+    // Rejoin words hyphenated at line ends
+    const text = paragraph
+      .map(line => line.text.trim())
+      .reduce((joined, next) => (/\w-$/.test(joined) && /^[a-z]/.test(next) ? joined.slice(0, -1) + next : `${joined} ${next}`));
+
+    if (isLarge(paragraph[0]) && text.length <= 120) {
+      blocks.push({ type: 'heading', level: paragraph[0].size >= largest * 0.95 ? 1 : 2, text: text.replace(/\s+/g, ' ') });
+    } else if (paragraph.length === 1 && looksLikeHeading(text)) {
+      blocks.push({ type: 'heading', level: 2, text });
+    } else {
+      // Bullets keep their markers in the text layer; parsePlainText splits them
+      blocks.push(...parsePlainText(paragraph.map(line => line.text).join('\n')));
+    }
+  });
+  return blocks;
+}
+
+// Reads an uploaded file into structured content. Throws with a message for
+// the user when the file can't be used.
+export async function importContentFile(file: File): Promise<StructuredContent> {
+  const format = detectContentFormat(file);
+  if (!format) {
+    throw new Error('Upload a Markdown, Word (.docx), PDF or plain text file');
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error('The file is larger than 10 MB');
+  }
+
+  let blocks: ContentBlock[];
+  switch (format) {
+    case 'markdown':
+      blocks = parseMarkdown(await file.text());
+      break;
+    case 'text':
+      blocks = parsePlainText(await file.text());
+      break;
+    case 'docx':
+      blocks = await parseDocx(await file.arrayBuffer());
+      break;
+    case 'pdf':
+      blocks = await parsePdf(await file.arrayBuffer());
+      break;
+  }
+
+  const content = buildStructuredContent(blocks, { name: file.name, format });
+  if (isEmptyContent(content)) {
+    throw new Error(
+      format === 'pdf'
+        ? `No text found in ${file.name}. Scanned PDFs without a text layer can't be imported.`
+        : `No text found in ${file.name}`
+    );
+  }
+  return content;
+}
@@ -0,0 +1,19 @@
+import { getAuthHeaders } from './supabase';
+import type { Deployment } from '../types/database';
+
+// Deployment runs on the server (see src/api/deploy.ts) so platform tokens
+// never reach the browser. Resolves with the finished deployment, failed
+// ones included, as long as the attempt could be recorded.
+export async function deployProject(projectId: string): Promise<Deployment> {
+  const response = await fetch('/api/deploy', {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ projectId }),
+  });
+
+  const body = await response.json().catch(() => null);
+  if (body?.id) {
+    return body as Deployment;
+  }
+  throw new Error(body?.error || `Deployment failed with status ${response.status}`);
+}
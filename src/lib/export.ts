@@ -0,0 +1,243 @@
+import JSZip from 'jszip';
+import { getCurrentVersion } from './supabase';
+import { slugify } from './slug';
+import type { Project } from '../types/database';
+
+// Packages a version as a static site that works offline: index.html, the
+// page's CSS in styles.css, and every image and web font it references under
+// assets/, all linked with relative paths.
+
+const FONT_EXTENSIONS = ['woff2', 'woff', 'ttf', 'otf', 'eot'];
+const MAX_CSS_IMPORT_DEPTH = 3;
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'font/woff2': 'woff2',
+  'font/woff': 'woff',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+};
+
+// Matches url(...) in CSS, quoted or not
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+const CSS_IMPORT_PATTERN = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?([^;]*);/g;
+
+function extensionOf(url: string): string {
+  try {
+    const pathname = new URL(url).pathname;
+    const ext = pathname.includes('.') ? pathname.split('.').pop()?.toLowerCase() : '';
+    return ext && /^[a-z0-9]{2,5}$/.test(ext) ? ext : '';
+  } catch {
+    return '';
+  }
+}
+
+// Null for references that cannot be resolved, such as "http://["
+function absoluteUrl(url: string, base: string): string | null {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return null;
+  }
+}
+
+function isRemote(url: string): boolean {
+  return /^https?:\/\//i.test(url) || url.startsWith('//');
+}
+
+interface SiteArchive {
+  // Downloads a referenced file into assets/ and returns its archive path,
+  // or null when it cannot be fetched (the original URL is kept then)
+  addFile(url: string): Promise<string | null>;
+  addText(path: string, content: string): void;
+  resolve(url: string): string | null;
+  generate(): Promise<Blob>;
+}
+
+function createSiteArchive(baseUrl: string): SiteArchive {
+  const zip = new JSZip();
+  // Source URL to archive path, so each file is downloaded once
+  const files = new Map<string, Promise<string | null>>();
+  let count = 0;
+
+  const resolve = (url: string) => absoluteUrl(url, baseUrl);
+
+  const download = async (url: string): Promise<string | null> => {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      const blob = await response.blob();
+      const contentType = blob.type.split(';')[0];
+      const ext = extensionOf(url) || CONTENT_TYPE_EXTENSIONS[contentType] || 'bin';
+      const folder = FONT_EXTENSIONS.includes(ext) || contentType.startsWith('font/') ? 'fonts' : 'images';
+
+      const name = (new URL(url).pathname.split('/').pop() || '')
+        .replace(/\.[^.]*$/, '')
+        .replace(/[^a-z0-9_-]+/gi, '-')
+        .slice(0, 40) || 'file';
+      const path = `assets/${folder}/${++count}-${name}.${ext}`;
+      zip.file(path, blob);
+      return path;
+    } catch (error) {
+      console.error(`[Export] Could not include ${url}:`, error);
+      return null;
+    }
+  };
+
+  return {
+    addFile(url) {
+      const absolute = resolve(url);
+      if (!absolute) return Promise.resolve(null);
+
+      let path = files.get(absolute);
+      if (!path) {
+        path = download(absolute);
+        files.set(absolute, path);
+      }
+      return path;
+    },
+    addText(path, content) {
+      zip.file(path, content);
+    },
+    resolve,
+    generate: () => zip.generateAsync({ type: 'blob' }),
+  };
+}
+
+// Rewrites url() references to archive paths and inlines remote @imports
+// (Google Fonts and the like) so their font files get bundled too. Paths are
+// relative to styles.css, which sits next to index.html.
+async function localizeCss(
+  css: string,
+  archive: SiteArchive,
+  baseUrl: string,
+  depth = 0
+): Promise<string> {
+  const imports = Array.from(css.matchAll(CSS_IMPORT_PATTERN));
+  let result = css;
+  for (const [statement, , href, media] of imports) {
+    const url = absoluteUrl(href, baseUrl);
+    if (!url || depth >= MAX_CSS_IMPORT_DEPTH || !isRemote(url)) continue;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      const imported = await localizeCss(await response.text(), archive, url, depth + 1);
+      const wrapped = media.trim() ? `@media ${media.trim()} {\n${imported}\n}` : imported;
+      result = result.replace(statement, wrapped);
+    } catch (error) {
+      console.error(`[Export] Could not inline ${url}:`, error);
+    }
+  }
+
+  const references = Array.from(result.matchAll(CSS_URL_PATTERN));
+  const replacements = new Map<string, string>();
+  for (const [match, , href] of references) {
+    if (href.startsWith('data:') || href.startsWith('#') || replacements.has(match)) continue;
+    const url = absoluteUrl(href, baseUrl);
+    // Malformed references are left as they are
+    const path = url && await archive.addFile(url);
+    if (path) replacements.set(match, `url("${path}")`);
+  }
+  replacements.forEach((replacement, match) => {
+    result = result.split(match).join(replacement);
+  });
+  return result;
+}
+
+async function localizeSrcset(srcset: string, archive: SiteArchive): Promise<string> {
+  const candidates = await Promise.all(
+    srcset.split(',').map(async candidate => {
+      const [url, ...descriptor] = candidate.trim().split(/\s+/);
+      const path = url ? await archive.addFile(url) : null;
+      return [path || url, ...descriptor].join(' ');
+    })
+  );
+  return candidates.join(', ');
+}
+
+export async function buildSiteArchive(html: string, baseUrl = window.location.href): Promise<Blob> {
+  const archive = createSiteArchive(baseUrl);
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  // Inline <style> blocks and linked stylesheets become styles.css, in
+  // document order so the cascade is unchanged
+  const cssParts: string[] = [];
+  for (const el of Array.from(doc.querySelectorAll('style, link[rel~="stylesheet"]'))) {
+    const media = el.getAttribute('media');
+    let css: string;
+    if (el.tagName === 'STYLE') {
+      css = await localizeCss(el.textContent || '', archive, baseUrl);
+    } else {
+      const href = archive.resolve(el.getAttribute('href') || '');
+      if (!href) continue;
+      try {
+        const response = await fetch(href);
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        css = await localizeCss(await response.text(), archive, href);
+      } catch (error) {
+        // Leave the <link> in place; it still works online
+        console.error(`[Export] Could not inline ${href}:`, error);
+        continue;
+      }
+    }
+    cssParts.push(media && media !== 'all' ? `@media ${media} {\n${css}\n}` : css);
+    el.remove();
+  }
+
+  if (cssParts.length) {
+    archive.addText('styles.css', cssParts.join('\n\n'));
+    const link = doc.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = 'styles.css';
+    doc.head.appendChild(link);
+  }
+
+  // Images, favicons and inline style attributes
+  for (const el of Array.from(doc.querySelectorAll('img[src], source[src], video[poster], link[rel~="icon"], input[type="image"]'))) {
+    const attribute = el.hasAttribute('poster') ? 'poster' : el.tagName === 'LINK' ? 'href' : 'src';
+    const url = el.getAttribute(attribute);
+    if (!url || url.startsWith('data:')) continue;
+    const path = await archive.addFile(url);
+    if (path) el.setAttribute(attribute, path);
+  }
+  for (const el of Array.from(doc.querySelectorAll('[srcset]'))) {
+    el.setAttribute('srcset', await localizeSrcset(el.getAttribute('srcset') || '', archive));
+  }
+  for (const el of Array.from(doc.querySelectorAll('[style]'))) {
+    const style = el.getAttribute('style') || '';
+    if (style.includes('url(')) {
+      el.setAttribute('style', await localizeCss(style, archive, baseUrl));
+    }
+  }
+
+  archive.addText('index.html', `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`);
+  return archive.generate();
+}
+
+// Builds the archive for the project's current version and hands it to the
+// browser as a download
+export async function downloadProject(project: Project) {
+  const version = await getCurrentVersion(project.id);
+  if (!version?.html_content) {
+    throw new Error('This project has no version to download yet');
+  }
+
+  const blob = await buildSiteArchive(version.html_content);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slugify(project.name) || 'landing-page'}-v${version.version_number}.zip`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,326 @@
+import type { ColorPalette, ColorRole, ColorSource, WebsiteStyle } from '../types/database';
+
+// Colour handling shared by the scrape endpoint, the prompt and the fallback
+// template. Everything is normalised to lower-case #rrggbb so values from
+// different stylesheets compare equal.
+
+export interface RankedColor {
+  hex: string;
+  count: number;
+}
+
+// Colours closer than this (CIE76 delta E) read as the same colour
+const SIMILARITY_THRESHOLD = 10;
+
+const DEFAULT_PALETTE: ColorPalette = {
+  primary: '#4f46e5',
+  secondary: '#7c3aed',
+  accent: '#f59e0b',
+  text: '#1f2937',
+  background: '#f9fafb',
+  surface: '#ffffff',
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  gray: '#808080',
+  grey: '#808080',
+  silver: '#c0c0c0',
+  red: '#ff0000',
+  maroon: '#800000',
+  orange: '#ffa500',
+  yellow: '#ffff00',
+  gold: '#ffd700',
+  olive: '#808000',
+  lime: '#00ff00',
+  green: '#008000',
+  teal: '#008080',
+  aqua: '#00ffff',
+  cyan: '#00ffff',
+  blue: '#0000ff',
+  navy: '#000080',
+  purple: '#800080',
+  fuchsia: '#ff00ff',
+  magenta: '#ff00ff',
+  pink: '#ffc0cb',
+  brown: '#a52a2a',
+  indigo: '#4b0082',
+  violet: '#ee82ee',
+  crimson: '#dc143c',
+  coral: '#ff7f50',
+  tomato: '#ff6347',
+  salmon: '#fa8072',
+  turquoise: '#40e0d0',
+  whitesmoke: '#f5f5f5',
+  gainsboro: '#dcdcdc',
+  lightgray: '#d3d3d3',
+  lightgrey: '#d3d3d3',
+  darkgray: '#a9a9a9',
+  darkgrey: '#a9a9a9',
+  dimgray: '#696969',
+  dimgrey: '#696969',
+  slategray: '#708090',
+  slategrey: '#708090',
+  darkslategray: '#2f4f4f',
+  darkslategrey: '#2f4f4f',
+  aliceblue: '#f0f8ff',
+  ghostwhite: '#f8f8ff',
+  ivory: '#fffff0',
+  beige: '#f5f5dc',
+  royalblue: '#4169e1',
+  steelblue: '#4682b4',
+  dodgerblue: '#1e90ff',
+  skyblue: '#87ceeb',
+  midnightblue: '#191970',
+  darkblue: '#00008b',
+  darkgreen: '#006400',
+  forestgreen: '#228b22',
+  seagreen: '#2e8b57',
+  darkred: '#8b0000',
+  firebrick: '#b22222',
+  darkorange: '#ff8c00',
+  rebeccapurple: '#663399',
+};
+
+const toHex = (channels: number[]) =>
+  '#' + channels.map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('');
+
+function hslToRgb(h: number, s: number, l: number): number[] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+// Parses hex, rgb(), hsl() and named colours into #rrggbb. Returns null for
+// anything that is not a colour or is (nearly) fully transparent.
+export function normalizeColor(value: string): string | null {
+  const v = value.trim().toLowerCase();
+  if (NAMED_COLORS[v]) return NAMED_COLORS[v];
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(v);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    if (digits.length === 8 && parseInt(digits.slice(6), 16) / 255 < 0.1) return null;
+    return `#${digits.slice(0, 6)}`;
+  }
+
+  const fn = /^(rgba?|hsla?)\(\s*([^)]*)\)$/.exec(v);
+  if (!fn) return null;
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  const alpha = parts[3] === undefined
+    ? 1
+    : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+  if (Number.isNaN(alpha) || alpha < 0.1) return null;
+
+  if (fn[1].startsWith('rgb')) {
+    const channels = parts.slice(0, 3).map(p => (p.endsWith('%') ? parseFloat(p) * 2.55 : parseFloat(p)));
+    return channels.some(Number.isNaN) ? null : toHex(channels);
+  }
+
+  const [h, s, l] = [parseFloat(parts[0]), parseFloat(parts[1]) / 100, parseFloat(parts[2]) / 100];
+  if ([h, s, l].some(Number.isNaN)) return null;
+  return toHex(hslToRgb(((h % 360) + 360) % 360, s, l));
+}
+
+function hexToRgb(hex: string): number[] {
+  return [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+}
+
+// Moves `weight` of the way from one colour to the other
+function mix(from: string, to: string, weight: number): string {
+  const [a, b] = [hexToRgb(from), hexToRgb(to)];
+  return toHex(a.map((channel, i) => channel + (b[i] - channel) * weight));
+}
+
+// CIE L*a*b* under D65, the space delta E is defined in
+function hexToLab(hex: string): [number, number, number] {
+  const [r, g, b] = hexToRgb(hex).map(c => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  const xyz = [
+    (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047,
+    r * 0.2126 + g * 0.7152 + b * 0.0722,
+    (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883,
+  ].map(t => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116));
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+}
+
+export function colorDistance(a: string, b: string): number {
+  const [l1, a1, b1] = hexToLab(a);
+  const [l2, a2, b2] = hexToLab(b);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+const lightness = (hex: string) => hexToLab(hex)[0];
+
+const chroma = (hex: string) => {
+  const [, a, b] = hexToLab(hex);
+  return Math.sqrt(a * a + b * b);
+};
+
+function relativeLuminance(hex: string): number {
+  const [r, g, b] = hexToRgb(hex).map(c => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// WCAG contrast ratio, 1 to 21
+export function contrastRatio(a: string, b: string): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// Normalises raw colour values, counts how often each is used and folds
+// perceptually similar colours into the more frequent one. Preferred colours
+// (e.g. from brand containers) are ranked ahead of everything else.
+export function rankColors(values: string[], preferred: string[] = []): RankedColor[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const hex = normalizeColor(value);
+    if (hex) counts.set(hex, (counts.get(hex) || 0) + 1);
+  }
+  const preferredHex = new Set(preferred.map(normalizeColor).filter((hex): hex is string => !!hex));
+  preferredHex.forEach(hex => counts.set(hex, counts.get(hex) || 1));
+
+  const ordered = Array.from(counts.entries()).sort((a, b) =>
+    Number(preferredHex.has(b[0])) - Number(preferredHex.has(a[0])) || b[1] - a[1]
+  );
+
+  const ranked: RankedColor[] = [];
+  for (const [hex, count] of ordered) {
+    const similar = ranked.find(color => colorDistance(color.hex, hex) < SIMILARITY_THRESHOLD);
+    if (similar) {
+      similar.count += count;
+    } else {
+      ranked.push({ hex, count });
+    }
+  }
+  return ranked;
+}
+
+// Assigns roles to ranked colours. Hints are what the page itself says a
+// colour is for (the body background, the main button...) and win over the
+// heuristics when they are usable.
+export function buildPalette(
+  ranked: RankedColor[],
+  hints: Partial<Record<ColorRole, string>> = {}
+): ColorPalette {
+  const colors = ranked.map(color => color.hex);
+  const hint = (role: ColorRole) => {
+    const value = hints[role];
+    return value ? normalizeColor(value) : null;
+  };
+  const used = new Set<string>();
+  const isNew = (hex: string) => Array.from(used).every(other => colorDistance(other, hex) >= SIMILARITY_THRESHOLD);
+  const take = (hex: string) => {
+    used.add(hex);
+    return hex;
+  };
+
+  const background = take(
+    hint('background')
+      || colors.find(hex => lightness(hex) > 90 && chroma(hex) < 15)
+      || DEFAULT_PALETTE.background
+  );
+
+  const textHint = hint('text');
+  const text = take(
+    (textHint && contrastRatio(textHint, background) >= 3 ? textHint : null)
+      || colors.find(hex => isNew(hex) && chroma(hex) < 20 && contrastRatio(hex, background) >= 4.5)
+      || (lightness(background) > 50 ? DEFAULT_PALETTE.text : '#f9fafb')
+  );
+
+  // Brand colours are the chromatic ones; greys only fill in when the page
+  // has no colour at all
+  const chromatic = colors.filter(hex => chroma(hex) >= 20);
+  const primaryHint = hint('primary');
+  const primary = take(
+    (primaryHint && isNew(primaryHint) ? primaryHint : null)
+      || chromatic.find(isNew)
+      || DEFAULT_PALETTE.primary
+  );
+  const secondary = take(chromatic.find(isNew) || DEFAULT_PALETTE.secondary);
+  // The accent is the most saturated colour left, so it stands out
+  const accent = take(
+    chromatic.filter(isNew).sort((a, b) => chroma(b) - chroma(a))[0] || DEFAULT_PALETTE.accent
+  );
+
+  // Cards and alternate sections: a colour close to, but not the same as,
+  // the background
+  const surfaceHint = hint('surface');
+  const isSurface = (hex: string) =>
+    hex !== background && colorDistance(hex, background) < 25 && contrastRatio(hex, text) >= 4.5;
+  const surface = (surfaceHint && isSurface(surfaceHint) ? surfaceHint : null)
+    || colors.find(isSurface)
+    || mix(background, text, 0.04);
+
+  return { primary, secondary, accent, text, background, surface };
+}
+
+// Palette for styles saved before roles existed. Their colours were never
+// ranked, so list order is the only usage signal there is.
+export function inferPalette(colors: string[]): ColorPalette {
+  const values = colors.flatMap((color, i) => Array<string>(colors.length - i).fill(color));
+  return buildPalette(rankColors(values));
+}
+
+export function getPalette(style?: Partial<Pick<WebsiteStyle, 'colors' | 'palette'>>): ColorPalette {
+  return style?.palette || inferPalette(style?.colors || []);
+}
+
+// The stored palette's colours, minus roles still on the built-in defaults
+// because the site had no colour for them. Styles without a stored palette
+// have nothing beyond their colour list.
+export function storedPaletteColors(style?: Partial<Pick<WebsiteStyle, 'colors' | 'palette'>>): string[] {
+  const palette = style?.palette;
+  if (!palette) return [];
+  const siteColors = new Set((style.colors || []).map(normalizeColor));
+  return COLOR_ROLES
+    .map(role => ({ role, hex: normalizeColor(palette[role] || '') }))
+    .filter((entry): entry is { role: ColorRole; hex: string } => !!entry.hex)
+    .filter(({ role, hex }) => hex !== DEFAULT_PALETTE[role] || siteColors.has(hex))
+    .map(({ hex }) => hex);
+}
+
+// Adds a logo's colours to the scraped ones. Colours the site already uses
+// (perceptually) are not repeated, and brand roles the stylesheets could not
+// back with a real colour are taken from the logo instead of the defaults.
+export function mergeLogoColors(
+  style: Pick<WebsiteStyle, 'colors' | 'palette' | 'colorSources'>,
+  logoColors: string[]
+): Pick<WebsiteStyle, 'colors' | 'palette' | 'colorSources'> {
+  const siteColors = style.colors.map(normalizeColor).filter((hex): hex is string => !!hex);
+  const logo = logoColors.map(normalizeColor).filter((hex): hex is string => !!hex);
+
+  const added: string[] = [];
+  for (const hex of logo) {
+    if ([...siteColors, ...added].every(other => colorDistance(other, hex) >= SIMILARITY_THRESHOLD)) {
+      added.push(hex);
+    }
+  }
+
+  const colorSources: Record<string, ColorSource> = { ...style.colorSources };
+  added.forEach(hex => {
+    colorSources[hex] = 'logo';
+  });
+
+  const palette = { ...getPalette(style) };
+  const candidates = logo.filter(hex => chroma(hex) >= 20);
+  for (const role of ['primary', 'secondary', 'accent'] as const) {
+    if (siteColors.includes(palette[role])) continue;
+    const roles = Object.values(palette);
+    const next = candidates.find(hex => roles.every(other => colorDistance(other, hex) >= SIMILARITY_THRESHOLD));
+    if (next) palette[role] = next;
+  }
+
+  return { colors: [...style.colors, ...added], palette, colorSources };
+}
+
+export const COLOR_ROLES: ColorRole[] = ['primary', 'secondary', 'accent', 'text', 'background', 'surface'];
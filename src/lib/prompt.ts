@@ -0,0 +1,339 @@
+import type { WebsiteStyle as BaseWebsiteStyle } from '../types/database';
+import type { MarketingContent } from '../types/content';
+import { COLOR_ROLES, getPalette, normalizeColor } from './palette';
+import { describeContent } from './content';
+
+export type ExtendedWebsiteStyle = BaseWebsiteStyle & {
+  headerBackgroundColor?: string;
+  footerBackgroundColor?: string;
+  footerLogo?: string;
+  sectionBackgroundColors?: string[];
+};
+
+// A problem found in the model's output. Most are fixed on the server
+// before the page is returned; the rest are left for the user to see.
+export interface OutputIssue {
+  code:
+    | 'code_fence'
+    | 'leading_text'
+    | 'trailing_text'
+    | 'truncated'
+    | 'missing_doctype'
+    | 'missing_html'
+    | 'missing_head'
+    | 'missing_body'
+    | 'missing_viewport'
+    | 'missing_title';
+  message: string;
+  fixed: boolean;
+}
+
+export interface AIPromptResponse {
+  html: string;
+  css: string;
+  error?: string;
+  issues?: OutputIssue[];
+}
+
+export interface FragmentResponse {
+  html: string;
+  error?: string;
+}
+
+// Events sent by POST /api/generate/stream, one per server-sent event
+export type GenerateStreamEvent =
+  | { type: 'chunk'; content: string }
+  | ({ type: 'done' } & AIPromptResponse);
+
+// Improved fallback template with better styling and structure
+export function getFallbackTemplate(assets: Partial<ExtendedWebsiteStyle>): string {
+  const palette = getPalette(assets);
+  const fontFamily = assets.fonts?.[0] || 'system-ui, -apple-system, sans-serif';
+  const logo = assets.logo;
+  const images = assets.images || [];
+  const headerStyle = assets.styles?.headerStyles?.[0] || {
+    fontSize: '2.25rem',
+    fontWeight: '700',
+    color: palette.text,
+    fontFamily: 'system-ui'
+  };
+  const buttonStyle = assets.styles?.buttonStyles?.[0] || {
+    backgroundColor: palette.primary,
+    color: '#FFFFFF',
+    padding: '0.75rem 1.5rem',
+    borderRadius: '0.375rem'
+  };
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Landing Page</title>
+    <style>
+        :root {
+            --primary-color: ${palette.primary};
+            --secondary-color: ${palette.secondary};
+            --accent-color: ${palette.accent};
+            --text-color: ${palette.text};
+            --bg-color: ${palette.background};
+            --surface-color: ${palette.surface};
+        }
+        
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+        
+        body {
+            margin: 0;
+            font-family: ${fontFamily};
+            color: var(--text-color);
+            background-color: var(--bg-color);
+            line-height: 1.5;
+        }
+        
+        .container {
+            max-width: ${assets.styles?.layout?.maxWidth || '1200px'};
+            margin: 0 auto;
+            padding: ${assets.styles?.layout?.containerPadding || '2rem'};
+        }
+        
+        .hero {
+            text-align: center;
+            padding: 4rem 2rem;
+            background: ${assets.styles?.gradients?.[0] || 'transparent'};
+        }
+        
+        .hero h1 {
+            font-size: ${headerStyle.fontSize};
+            font-weight: ${headerStyle.fontWeight};
+            color: ${headerStyle.color};
+            margin-bottom: 1.5rem;
+            line-height: 1.2;
+        }
+        
+        .hero p {
+            font-size: 1.25rem;
+            margin-bottom: 2rem;
+            max-width: 600px;
+            margin-left: auto;
+            margin-right: auto;
+        }
+        
+        .button {
+            display: inline-block;
+            background-color: ${buttonStyle.backgroundColor};
+            color: ${buttonStyle.color};
+            padding: ${buttonStyle.padding};
+            border-radius: ${buttonStyle.borderRadius};
+            text-decoration: none;
+            transition: opacity 0.2s, transform 0.2s;
+            box-shadow: ${assets.styles?.shadows?.[0] || '0 1px 3px rgba(0,0,0,0.1)'};
+        }
+        
+        .button:hover {
+            opacity: 0.9;
+            transform: translateY(-1px);
+        }
+        
+        .logo {
+            max-width: 200px;
+            margin-bottom: 2rem;
+        }
+        
+        .features {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(300px, 1fr));
+            gap: ${assets.styles?.layout?.gridGap || '2rem'};
+            padding: 4rem 0;
+        }
+        
+        .feature {
+            text-align: center;
+            padding: 2rem;
+            background: var(--surface-color);
+            border-radius: ${assets.styles?.borderRadius?.[0] || '0.5rem'};
+            box-shadow: ${assets.styles?.shadows?.[0] || '0 1px 3px rgba(0,0,0,0.1)'};
+        }
+        
+        .feature img {
+            width: 100%;
+            max-width: 300px;
+            height: 200px;
+            object-fit: cover;
+            border-radius: ${assets.styles?.borderRadius?.[0] || '0.5rem'};
+            margin-bottom: 1.5rem;
+        }
+        
+        @media (max-width: 768px) {
+            .hero h1 {
+                font-size: calc(${headerStyle.fontSize} * 0.75);
+            }
+            .hero p {
+                font-size: 1rem;
+            }
+            .features {
+                grid-template-columns: 1fr;
+            }
+        }
+    </style>
+</head>
+<body>
+    <div class="hero">
+        <div class="container">
+            ${logo ? `<img src="${logo}" alt="Logo" class="logo">` : ''}
+            <h1>Welcome to Our Landing Page</h1>
+            <p>We're currently experiencing high demand. Please try again in a few moments.</p>
+            <a href="#" class="button">Get Started</a>
+        </div>
+    </div>
+    
+    <div class="container">
+        <div class="features">
+            ${images.slice(0, 3).map((img, i) => `
+            <div class="feature">
+                <img src="${img}" alt="Feature ${i + 1}">
+                <h3>Feature ${i + 1}</h3>
+                <p>Lorem ipsum dolor sit amet, consectetur adipiscing elit.</p>
+            </div>
+            `).join('')}
+        </div>
+    </div>
+</body>
+</html>`;
+}
+
+// One line per colour role, then whatever else the site uses
+function describePalette(style?: ExtendedWebsiteStyle): string {
+  const palette = getPalette(style);
+  const roles = Object.values(palette);
+  const otherColors = (style?.colors || []).filter(color => !roles.includes(normalizeColor(color) || color));
+  return [
+    ...COLOR_ROLES.map(role => `${role[0].toUpperCase()}${role.slice(1)}: ${palette[role]}`),
+    ...(otherColors.length ? [`Other colors used on the site: ${otherColors.join(', ')}`] : []),
+  ].join('\n  ');
+}
+
+// Shared by the browser and the generation endpoint so both describe the
+// style guide to the model the same way
+export function buildLandingPagePrompt(
+  prompt: string,
+  style?: ExtendedWebsiteStyle,
+  content?: MarketingContent
+): string {
+  return `Create a modern, responsive landing page that matches this exact style guide:
+
+  Brand Colors (use these exact values):
+  ${describePalette(style)}
+
+  Typography:
+  Fonts: ${style?.fonts?.join(', ') || 'system-ui, -apple-system, sans-serif'}
+  ${style?.fontFaces?.length ? `Web Fonts (load with @font-face):\n${style.fontFaces.map(f => `- ${f.family}: ${f.src.join(', ')}`).join('\n')}` : ''}
+  Headings: ${style?.styles?.headerStyles?.map(h => 
+    `- Font: ${h.fontFamily}, Size: ${h.fontSize}, Weight: ${h.fontWeight}, Color: ${h.color}`
+  ).join('\n')}
+
+  Buttons:
+  ${style?.styles?.buttonStyles?.map(btn => 
+    `- Background: ${btn.backgroundColor}
+    Text Color: ${btn.color}
+    Padding: ${btn.padding}
+    Border Radius: ${btn.borderRadius}`
+  ).join('\n')}
+
+  Layout:
+  - Container Width: ${style?.styles?.layout?.maxWidth}
+  - Padding: ${style?.styles?.layout?.containerPadding}
+  - Grid Gap: ${style?.styles?.layout?.gridGap}
+
+  Visual Details:
+  Header Background Color: ${style?.headerBackgroundColor || 'N/A'}
+  Footer Background Color: ${style?.footerBackgroundColor || 'N/A'}
+  Footer Logo: ${style?.footerLogo || 'N/A'}
+  Section Background Colors: ${style?.sectionBackgroundColors?.join(', ') || 'N/A'}
+
+  Visual Effects:
+  ${style?.styles?.gradients?.length ? `Gradients:\n${style?.styles?.gradients.map(g => `- ${g}`).join('\n')}` : ''}
+  ${style?.styles?.shadows?.length ? `Shadows:\n${style?.styles?.shadows.map(s => `- ${s}`).join('\n')}` : ''}
+  Border Radius: ${style?.styles?.borderRadius?.join(', ')}
+
+  Assets:
+  ${style?.logo ? `Logo: ${style.logo}` : ''}
+  ${style?.images?.length ? `Images:\n${style.images.map(img => `- ${img}`).join('\n')}` : ''}
+  ${style?.metaDescription ? `Meta Description: ${style.metaDescription}` : ''}
+
+  Requirements:
+  1. Use ONLY the exact colors, fonts, and styles specified above
+  2. Create a responsive layout that works on all devices using semantic HTML5 elements
+  3. Include hover states for interactive elements
+  4. Ensure accessibility compliance
+  5. Use provided background colors and images
+  6. Include the logo and images in appropriate sections
+  7. Follow the exact spacing and layout values provided
+  8. Make sure any years are updated to the current year ${new Date().getFullYear()}
+  9. Make sure unless specified below, do not include any navigation or links in the header other than the logo
+
+  ${content ? `Page Content (build the page from these blocks, in this order, using the copy word for word; do not invent copy for blocks that are not listed):\n${describeContent(content)}\n` : ''}
+  Additional Content Requirements:
+  ${prompt}
+
+  Respond ONLY with the complete HTML code including embedded CSS. Do not include any explanations or markdown.`;
+}
+
+export function buildFragmentPrompt(
+  fragment: string,
+  instruction: string,
+  style?: ExtendedWebsiteStyle
+): string {
+  return `You are editing one block of an existing landing page. Rewrite the HTML fragment below according to the instruction.
+
+  Brand Colors: ${style?.colors?.length ? `\n  ${describePalette(style)}` : 'keep the colors already used'}
+  Fonts: ${style?.fonts?.join(', ') || 'keep the fonts already used'}
+
+  Instruction:
+  ${instruction}
+
+  Fragment:
+  ${fragment}
+
+  Requirements:
+  1. Keep the same outer element so the fragment still fits where it came from
+  2. Reuse the class names and CSS already present in the fragment where possible
+  3. Do not add <html>, <head> or <body> tags
+
+  Respond ONLY with the replacement HTML fragment. Do not include any explanations or markdown.`;
+}
+
+// System prompt for the refinement chat. The page itself travels with the
+// latest user message so earlier turns stay short.
+export function buildRefinementSystemPrompt(style?: ExtendedWebsiteStyle): string {
+  return `You are refining an existing landing page through a conversation. Each request contains the current HTML and one instruction.
+
+  Brand Colors: ${style?.colors?.length ? `\n  ${describePalette(style)}` : 'keep the colors already used'}
+  Fonts: ${style?.fonts?.join(', ') || 'keep the fonts already used'}
+
+  Requirements:
+  1. Apply only the requested change and keep everything else as it is
+  2. Keep using the brand colors, fonts and styles already present
+  3. Earlier instructions in the conversation still apply unless the new one overrides them
+
+  Respond ONLY with the complete updated HTML code including embedded CSS. Do not include any explanations or markdown.`;
+}
+
+// Sent after a response that stopped before the end of the page
+export function buildContinuationRequest(): string {
+  return `Your response was cut off. Continue the HTML exactly where it stopped, without repeating anything already written.
+
+  Respond ONLY with the rest of the code. Do not include any explanations or markdown.`;
+}
+
+export function buildRefinementRequest(html: string, instruction: string): string {
+  return `Current HTML:
+${html}
+
+Instruction:
+${instruction}`;
+}
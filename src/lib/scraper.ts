@@ -1,4 +1,4 @@
-import { supabase } from './supabase';
+import { getAuthHeaders, supabase } from './supabase';
 import type { ScrapedAssets } from '../types/scraper';
 
 interface ScrapingLog {
@@ -41,7 +41,9 @@ export async function scrapeWebsite(url: string, projectId: string, brand?: stri
     console.log(`[Scraping] Starting scrape of ${url}`);
     const brandParam = brand ? `&brand=${encodeURIComponent(brand)}` : '';
     console.log(`[Scraping] Making request to: /api/scrape?url=${encodeURIComponent(url)}${brandParam}`);
-    const response = await fetch(`/api/scrape?url=${encodeURIComponent(url)}${brandParam}`);
+    const response = await fetch(`/api/scrape?url=${encodeURIComponent(url)}${brandParam}`, {
+      headers: await getAuthHeaders(),
+    });
     
     console.log(`[Scraping] API Response status:`, response.status);
     if (!response.ok) {
@@ -59,10 +61,18 @@ export async function scrapeWebsite(url: string, projectId: string, brand?: stri
 
     const processedData: ScrapedAssets = {
       colors: Array.isArray(data.colors) ? data.colors : [],
+      palette: data.palette || undefined,
+      colorSources: data.colorSources || undefined,
       fonts: Array.isArray(data.fonts) ? data.fonts : [],
+      fontFaces: Array.isArray(data.fontFaces) ? data.fontFaces : [],
       images: Array.isArray(data.images) ? data.images : [],
       headings: Array.isArray(data.headings) ? data.headings : [],
       logo: data.logo || undefined,
+      brandMatch: data.brandMatch || undefined,
+      headerBackgroundColor: data.headerBackgroundColor || undefined,
+      footerBackgroundColor: data.footerBackgroundColor || undefined,
+      footerLogo: data.footerLogo || undefined,
+      sectionBackgroundColors: Array.isArray(data.sectionBackgroundColors) ? data.sectionBackgroundColors : [],
       styles: data.styles || {
         spacing: [],
         borderRadius: [],
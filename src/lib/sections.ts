@@ -0,0 +1,126 @@
+// Helpers for regenerating a single block of a page. Offsets always refer to
+// the editor's source text so a fragment can be spliced back without touching
+// the bytes around it.
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+const SECTION_TAGS = ['section', 'header', 'footer', 'main', 'nav', 'article', 'aside', 'div'];
+
+// Comments and raw-text elements are skipped so markup inside them is never
+// mistaken for real tags
+const SKIP_PATTERN = '<!--[\\s\\S]*?-->|<(script|style)\\b[\\s\\S]*?<\\/\\1\\s*>';
+
+export const SECTION_SELECT_MESSAGE = 'lpg-section-select';
+
+// Marks every section-like opening tag with its source offset. Only used for
+// the preview while picking a section; the editor content is never modified.
+export function annotateSections(html: string): string {
+  const pattern = new RegExp(`${SKIP_PATTERN}|<(${SECTION_TAGS.join('|')})(?=[\\s/>])`, 'gi');
+  return html.replace(pattern, (match, _raw, tag, offset: number) =>
+    tag ? `${match} data-lpg-start="${offset}"` : match
+  );
+}
+
+// Script injected into the preview: outlines the hovered block and reports
+// the source offset of the clicked one to the editor
+const PICKER_SCRIPT = `
+<script>
+(function () {
+  var SEMANTIC = 'section[data-lpg-start],header[data-lpg-start],footer[data-lpg-start],nav[data-lpg-start],article[data-lpg-start],aside[data-lpg-start]';
+  function pick(target) {
+    var el = target.closest && target.closest(SEMANTIC);
+    if (el) return el;
+    var outer = null;
+    for (var node = target; node && node !== document.body; node = node.parentElement) {
+      if (node.hasAttribute && node.hasAttribute('data-lpg-start')) outer = node;
+    }
+    return outer;
+  }
+  var hovered = null;
+  document.addEventListener('mouseover', function (e) {
+    var el = pick(e.target);
+    if (hovered && hovered !== el) hovered.style.outline = hovered.__lpgOutline || '';
+    if (el && hovered !== el) {
+      el.__lpgOutline = el.style.outline;
+      el.style.outline = '2px dashed #4F46E5';
+    }
+    hovered = el;
+  });
+  document.addEventListener('click', function (e) {
+    e.preventDefault();
+    e.stopPropagation();
+    var el = pick(e.target);
+    if (!el) return;
+    parent.postMessage({ type: '${SECTION_SELECT_MESSAGE}', start: Number(el.getAttribute('data-lpg-start')) }, '*');
+  }, true);
+})();
+</script>`;
+
+export function buildSectionPickerDocument(html: string): string {
+  const annotated = annotateSections(html);
+  const bodyEnd = annotated.search(/<\/body\s*>/i);
+  return bodyEnd === -1
+    ? annotated + PICKER_SCRIPT
+    : annotated.slice(0, bodyEnd) + PICKER_SCRIPT + annotated.slice(bodyEnd);
+}
+
+// Returns the range of the element whose opening tag starts at `start`,
+// including its closing tag, or null when the markup is not balanced
+export function findElementRange(html: string, start: number): SourceRange | null {
+  const openTag = /^<([a-z][a-z0-9-]*)\b[^>]*?(\/?)>/i.exec(html.slice(start));
+  if (!openTag) return null;
+  if (openTag[2]) return { start, end: start + openTag[0].length };
+
+  const tagName = openTag[1];
+  const pattern = new RegExp(`${SKIP_PATTERN}|<(\\/?)${tagName}\\b[^>]*?(\\/?)>`, 'gi');
+  pattern.lastIndex = start + openTag[0].length;
+
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    if (match[0].startsWith('<!--') || match[1]) continue;
+    if (match[2]) {
+      depth--;
+    } else if (!match[3]) {
+      depth++;
+    }
+    if (depth === 0) {
+      return { start, end: match.index + match[0].length };
+    }
+  }
+  return null;
+}
+
+export function describeRange(html: string, range: SourceRange): string {
+  const openTag = /^<([a-z][a-z0-9-]*)([^>]*)>/i.exec(html.slice(range.start));
+  if (openTag) {
+    const id = /\bid\s*=\s*["']([^"']+)["']/i.exec(openTag[2])?.[1];
+    const className = /\bclass\s*=\s*["']([^"']+)["']/i.exec(openTag[2])?.[1]?.split(/\s+/)[0];
+    return `<${openTag[1].toLowerCase()}${id ? `#${id}` : ''}${className ? `.${className}` : ''}>`;
+  }
+  const line = (offset: number) => html.slice(0, offset).split('\n').length;
+  return `lines ${line(range.start)}-${line(range.end)}`;
+}
+
+// Returns a function giving the 1-based line of a source offset
+export function lineLocator(html: string): (offset: number) => number {
+  const lineStarts = [0];
+  for (let i = html.indexOf('\n'); i !== -1; i = html.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low + 1;
+  };
+}
+
+export function spliceRange(html: string, range: SourceRange, replacement: string): string {
+  return html.slice(0, range.start) + replacement + html.slice(range.end);
+}
@@ -0,0 +1,20 @@
+// Public page URLs are /p/<slug>; the database enforces the same format
+export const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+export const SLUG_MIN_LENGTH = 3;
+export const SLUG_MAX_LENGTH = 60;
+
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/^-|-$/g, '');
+}
+
+export function isValidSlug(slug: string): boolean {
+  return (
+    SLUG_PATTERN.test(slug) &&
+    slug.length >= SLUG_MIN_LENGTH &&
+    slug.length <= SLUG_MAX_LENGTH
+  );
+}
@@ -1,5 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
-import type { Project, Version, Asset } from '../types/database';
+import type {
+  Project,
+  Version,
+  NewVersion,
+  Asset,
+  ScrapingLog,
+  RefinementTurn,
+  Draft,
+  Deployment,
+} from '../types/database';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -16,14 +25,62 @@ export const supabase = createClient<{
       assets: {
         Row: Asset;
       };
+      scraping_logs: {
+        Row: ScrapingLog;
+      };
+      drafts: {
+        Row: Draft;
+      };
+      deployments: {
+        Row: Deployment;
+      };
+    };
+    Functions: {
+      create_version: {
+        Args: {
+          p_project_id: string;
+          p_html_content: string | null;
+          p_css_content: string | null;
+          p_marketing_content: string | null;
+          p_prompt_instructions: string | null;
+          p_refinement_history: RefinementTurn[];
+          p_parent_version_id: string | null;
+          p_make_current: boolean;
+        };
+        Returns: Version;
+      };
+      set_current_version: {
+        Args: { p_version_id: string };
+        Returns: Version;
+      };
+      publish_version: {
+        Args: { p_version_id: string };
+        Returns: Project;
+      };
+      reopen_project: {
+        Args: { p_project_id: string };
+        Returns: Project;
+      };
     };
   };
 }>(supabaseUrl, supabaseAnonKey);
 
+// Headers for calls to our own server API, which checks the session
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Please log in to continue');
+  }
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
 export async function getProjects() {
   const { data, error } = await supabase
     .from('projects')
-    .select('*')
+    .select('*, published_version:versions!published_version_id(version_number)')
     .order('updated_at', { ascending: false });
 
   if (error) throw error;
@@ -52,6 +109,21 @@ export async function getProjectVersions(projectId: string) {
   return data;
 }
 
+// The version marked current, or the newest one if none is
+export async function getCurrentVersion(projectId: string) {
+  const { data, error } = await supabase
+    .from('versions')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('is_current', { ascending: false })
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
 export async function getProjectAssets(projectId: string) {
   const { data, error } = await supabase
     .from('assets')
@@ -62,6 +134,17 @@ export async function getProjectAssets(projectId: string) {
   return data;
 }
 
+export async function getScrapingLogs(projectId: string) {
+  const { data, error } = await supabase
+    .from('scraping_logs')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
 export async function createProject(project: Partial<Project>) {
   const { data, error } = await supabase
     .from('projects')
@@ -98,21 +181,37 @@ export async function deleteProject(projectId: string) {
   if (error) throw error;
 }
 
-export async function createVersion(version: Partial<Version>) {
-  // First, set all other versions' is_current to false
-  if (version.is_current) {
-    await supabase
-      .from('versions')
-      .update({ is_current: false })
-      .eq('project_id', version.project_id);
-  }
-
+// Sets the project's public URL (/p/<slug>); null removes it
+export async function updateProjectSlug(projectId: string, slug: string | null) {
   const { data, error } = await supabase
-    .from('versions')
-    .insert(version)
+    .from('projects')
+    .update({ slug })
+    .eq('id', projectId)
     .select()
     .single();
 
+  // Unique violation: another project already uses the slug
+  if (error?.code === '23505') {
+    throw new Error('That URL is already taken by another project');
+  }
+  if (error) throw error;
+  return data;
+}
+
+// Version numbers and the current flag are assigned by the create_version
+// database function, in one transaction, so concurrent saves cannot collide
+export async function createVersion(version: NewVersion) {
+  const { data, error } = await supabase.rpc('create_version', {
+    p_project_id: version.project_id,
+    p_html_content: version.html_content ?? null,
+    p_css_content: version.css_content ?? null,
+    p_marketing_content: version.marketing_content ?? null,
+    p_prompt_instructions: version.prompt_instructions ?? null,
+    p_refinement_history: version.refinement_history ?? [],
+    p_parent_version_id: version.parent_version_id ?? null,
+    p_make_current: version.is_current ?? true,
+  });
+
   if (error) throw error;
   return data;
 }
@@ -132,24 +231,87 @@ export async function updateVersion(
   return data;
 }
 
-export async function setCurrentVersion(
+// Makes the version the project's only current one (restore / promote)
+export async function setCurrentVersion(versionId: string) {
+  const { data, error } = await supabase.rpc('set_current_version', {
+    p_version_id: versionId,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Freezes the version as the project's final one, approved by the
+// signed-in user. Versions cannot change until the project is reopened.
+export async function publishVersion(versionId: string) {
+  const { data, error } = await supabase.rpc('publish_version', {
+    p_version_id: versionId,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function reopenProject(projectId: string) {
+  const { data, error } = await supabase.rpc('reopen_project', {
+    p_project_id: projectId,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// The signed-in user's draft for the project, if there is one
+export async function getDraft(projectId: string) {
+  const { data, error } = await supabase
+    .from('drafts')
+    .select('*')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function saveDraft(
   projectId: string,
-  versionId: string
+  htmlContent: string,
+  baseVersionId: string | null
 ) {
-  // First, set all versions' is_current to false
-  await supabase
-    .from('versions')
-    .update({ is_current: false })
-    .eq('project_id', projectId);
-
-  // Then set the specified version as current
   const { data, error } = await supabase
-    .from('versions')
-    .update({ is_current: true })
-    .eq('id', versionId)
+    .from('drafts')
+    .upsert(
+      {
+        project_id: projectId,
+        html_content: htmlContent,
+        base_version_id: baseVersionId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'project_id,user_id' }
+    )
     .select()
     .single();
 
   if (error) throw error;
   return data;
-}
\ No newline at end of file
+}
+
+export async function deleteDraft(projectId: string) {
+  const { error } = await supabase
+    .from('drafts')
+    .delete()
+    .eq('project_id', projectId);
+
+  if (error) throw error;
+}
+
+export async function getDeployments(projectId: string) {
+  const { data, error } = await supabase
+    .from('deployments')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
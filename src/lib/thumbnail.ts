@@ -0,0 +1,145 @@
+import { supabase, updateProject } from './supabase';
+import type { Project } from '../types/database';
+
+// The page is laid out at desktop width; the image matches the 16:9
+// Dashboard cards at half that size
+const PAGE_WIDTH = 1280;
+const PAGE_HEIGHT = 720;
+const THUMBNAIL_WIDTH = 640;
+const THUMBNAIL_HEIGHT = 360;
+
+const MAX_INLINED_IMAGES = 12;
+const IMAGE_TIMEOUT = 5000;
+
+const CSS_URL_PATTERN = /url\(\s*(['"]?)(https?:\/\/[^'")\s]+)\1\s*\)/g;
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function fetchAsDataUrl(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT) });
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return blob.type.startsWith('image/') ? readAsDataUrl(blob) : null;
+  } catch {
+    // Usually a host without CORS headers; the image is left out
+    return null;
+  }
+}
+
+// An SVG image can't load anything itself, so images (<img> and CSS url())
+// are embedded as data URLs. Stored project assets allow this; other hosts
+// may not, and those images stay blank.
+async function inlineImages(doc: Document) {
+  const images = Array.from(doc.querySelectorAll('img'));
+  const styled = Array.from(doc.querySelectorAll<HTMLElement>('style, [style]'));
+  const cssText = (el: HTMLElement) => (el.tagName === 'STYLE' ? el.textContent || '' : el.getAttribute('style') || '');
+
+  const urls = new Set<string>();
+  images.forEach(img => {
+    const src = img.getAttribute('src');
+    if (src && /^https?:\/\//.test(src)) urls.add(src);
+  });
+  styled.forEach(el => {
+    for (const match of cssText(el).matchAll(CSS_URL_PATTERN)) urls.add(match[2]);
+  });
+
+  const dataUrls = new Map<string, string>();
+  await Promise.all(
+    Array.from(urls).slice(0, MAX_INLINED_IMAGES).map(async url => {
+      const dataUrl = await fetchAsDataUrl(url);
+      if (dataUrl) dataUrls.set(url, dataUrl);
+    })
+  );
+
+  images.forEach(img => {
+    const dataUrl = dataUrls.get(img.getAttribute('src') || '');
+    if (dataUrl) img.setAttribute('src', dataUrl);
+    img.removeAttribute('srcset');
+    img.removeAttribute('loading');
+  });
+  styled.forEach(el => {
+    const replaced = cssText(el).replace(CSS_URL_PATTERN, (whole, _quote, url) =>
+      dataUrls.has(url) ? `url("${dataUrls.get(url)}")` : whole
+    );
+    if (el.tagName === 'STYLE') {
+      el.textContent = replaced;
+    } else {
+      el.setAttribute('style', replaced);
+    }
+  });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to render the page'));
+    image.src = src;
+  });
+}
+
+// Renders the top of the page to an image in the browser: the document is
+// drawn through an SVG <foreignObject>, without scripts or external
+// stylesheets, so the result is close to but not exactly the live preview.
+export async function renderThumbnail(html: string): Promise<Blob> {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, noscript, iframe, object, embed, link[rel="stylesheet"]').forEach(el => el.remove());
+  await inlineImages(doc);
+
+  const markup = new XMLSerializer().serializeToString(doc.documentElement);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+  // A data URL (not a blob URL) keeps the canvas readable in every browser
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  context.drawImage(image, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+  // Browsers without WebP encoding fall back to PNG
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.85));
+  if (!blob) {
+    throw new Error('Failed to encode the thumbnail');
+  }
+  return blob;
+}
+
+// Renders the page, replaces the project's thumbnail in project-assets and
+// stores its URL on the project. Returns the updated project.
+export async function updateProjectThumbnail(projectId: string, html: string): Promise<Project> {
+  const blob = await renderThumbnail(html);
+  const filename = `${projectId}/thumbnail.${blob.type === 'image/webp' ? 'webp' : 'png'}`;
+
+  const { error } = await supabase.storage
+    .from('project-assets')
+    .upload(filename, blob, {
+      contentType: blob.type,
+      cacheControl: '3600',
+      upsert: true
+    });
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('project-assets')
+    .getPublicUrl(filename);
+
+  // The file name is reused, so the URL changes with each render to get
+  // past caches
+  return updateProject(projectId, { thumbnail_url: `${publicUrl}?v=${Date.now()}` });
+}
@@ -12,9 +12,11 @@ import {
   ExternalLink,
   Layout,
   Trash2,
+  Lock,
 } from 'lucide-react';
 import Navbar from '../components/Navbar';
 import { getProjects, deleteProject } from '../lib/supabase';
+import { downloadProject } from '../lib/export';
 import type { Project } from '../types/database';
 import { Link } from 'react-router-dom';
 
@@ -25,6 +27,8 @@ function Dashboard() {
   const [statusFilter, setStatusFilter] = useState<'all' | 'draft' | 'final'>('all');
   const [isLoading, setIsLoading] = useState(true);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<{ projectId: string; message: string } | null>(null);
 
   useEffect(() => {
     loadProjects();
@@ -54,6 +58,22 @@ function Dashboard() {
     }
   };
 
+  const handleDownloadProject = async (project: Project) => {
+    setDownloadingId(project.id);
+    setDownloadError(null);
+    try {
+      await downloadProject(project);
+    } catch (error) {
+      console.error('Error downloading project:', error);
+      setDownloadError({
+        projectId: project.id,
+        message: error instanceof Error ? error.message : 'Failed to download project',
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
   const filteredProjects = projects.filter(project => {
     const matchesSearch = project.name.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesStatus = statusFilter === 'all' || project.status === statusFilter;
@@ -135,10 +155,18 @@ function Dashboard() {
             {filteredProjects.map((project) => (
               <div
                 key={project.id}
-                className="bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+                className={`bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow ${
+                  project.status === 'final' ? 'ring-2 ring-green-500' : ''
+                }`}
               >
                 <div className="aspect-w-16 aspect-h-9 bg-gray-100">
-                  {project.settings?.extracted_styles?.images?.[0] ? (
+                  {project.thumbnail_url ? (
+                    <img
+                      src={project.thumbnail_url}
+                      alt={project.name}
+                      className="object-cover object-top w-full h-full"
+                    />
+                  ) : project.settings?.extracted_styles?.images?.[0] ? (
                     <img
                       src={project.settings.extracted_styles.images[0]}
                       alt={project.name}
@@ -161,15 +189,23 @@ function Dashboard() {
                       </p>
                     </div>
                     <span
-                      className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${
                         project.status === 'final'
                           ? 'bg-green-100 text-green-800'
                           : 'bg-yellow-100 text-yellow-800'
                       }`}
                     >
+                      {project.status === 'final' && <Lock className="h-3 w-3 mr-1" />}
                       {project.status}
                     </span>
                   </div>
+                  {project.status === 'final' && (
+                    <p className="mt-1 text-sm text-green-700">
+                      Published
+                      {project.published_version ? ` v${project.published_version.version_number}` : ''}
+                      {project.published_at && ` · ${new Date(project.published_at).toLocaleDateString()}`}
+                    </p>
+                  )}
                   {project.website_url && (
                     <a
                       href={project.website_url}
@@ -182,12 +218,13 @@ function Dashboard() {
                     </a>
                   )}
                   <div className="mt-4 flex justify-end space-x-2">
-                    <button
+                    <Link
+                      to={`/project/${project.id}/history`}
                       className="p-2 text-gray-400 hover:text-gray-500"
                       title="View history"
                     >
                       <Clock className="h-5 w-5" />
-                    </button>
+                    </Link>
                     <Link
                       to={`/project/${project.id}`}
                       className="p-2 text-gray-400 hover:text-gray-500"
@@ -196,10 +233,16 @@ function Dashboard() {
                       <Edit3 className="h-5 w-5" />
                     </Link>
                     <button
-                      className="p-2 text-gray-400 hover:text-gray-500"
+                      onClick={() => handleDownloadProject(project)}
+                      disabled={downloadingId === project.id}
+                      className="p-2 text-gray-400 hover:text-gray-500 disabled:opacity-50"
                       title="Download"
                     >
-                      <Download className="h-5 w-5" />
+                      {downloadingId === project.id ? (
+                        <RefreshCw className="h-5 w-5 animate-spin" />
+                      ) : (
+                        <Download className="h-5 w-5" />
+                      )}
                     </button>
                     {deleteConfirm === project.id ? (
                       <div className="flex items-center space-x-2">
@@ -227,6 +270,9 @@ function Dashboard() {
                       </button>
                     )}
                   </div>
+                  {downloadError?.projectId === project.id && (
+                    <p className="mt-2 text-sm text-red-600">{downloadError.message}</p>
+                  )}
                 </div>
               </div>
             ))}
@@ -11,12 +11,24 @@ import {
   Loader2,
   AlertCircle,
   Wand2,
+  Upload,
 } from 'lucide-react';
 import Navbar from '../components/Navbar';
+import MarketingContentForm from '../components/MarketingContentForm';
 import { createProject, createVersion } from '../lib/supabase';
 import { generateLandingPage, getFallbackTemplate } from '../lib/ai';
 import { scrapeWebsite } from '../lib/scraper';
+import { updateProjectThumbnail } from '../lib/thumbnail';
+import {
+  emptyMarketingContent,
+  isEmptyMarketingContent,
+  normalizeMarketingContent,
+  toMarketingContent,
+} from '../lib/content';
+import { CONTENT_FILE_TYPES, importContentFile } from '../lib/contentImport';
+import type { MarketingContent } from '../types/content';
 import type { Project, ProjectSettings, WebsiteStyle } from '../types/database';
+import type { BrandMatch } from '../types/scraper';
 
 type Step = 'url' | 'content' | 'settings';
 
@@ -32,10 +44,12 @@ function NewProject() {
   const [projectName, setProjectName] = useState('');
   const [websiteUrl, setWebsiteUrl] = useState('');
   const [brand, setBrand] = useState('');
-  const [marketingContent, setMarketingContent] = useState('');
+  const [content, setContent] = useState<MarketingContent>(emptyMarketingContent);
+  const [isImporting, setIsImporting] = useState(false);
   const [useLorem, setUseLorem] = useState(false);
   const [additionalInstructions, setAdditionalInstructions] = useState('');
   const [extractedAssets, setExtractedAssets] = useState<WebsiteStyle | null>(null);
+  const [brandMatch, setBrandMatch] = useState<BrandMatch | null>(null);
 
   const steps = [
     { id: 'url' as const, title: 'Website URL', icon: <Globe className="h-6 w-6" /> },
@@ -69,15 +83,13 @@ function NewProject() {
       setCurrentProject(project);
 
       // Scrape website with project ID for asset storage, pass the brand value
-      const scrapedAssets = await scrapeWebsite(websiteUrl, project.id, brand);
+      const { brandMatch: matched, ...scrapedAssets } = await scrapeWebsite(websiteUrl, project.id, brand);
       setExtractedAssets(scrapedAssets);
+      setBrandMatch(matched || null);
 
       // Update project with extracted assets
       await createVersion({
         project_id: project.id,
-        version_number: 1,
-        created_by: user.id,
-        is_current: true,
         html_content: getFallbackTemplate(scrapedAssets),
         marketing_content: ''
       });
@@ -94,6 +106,28 @@ function NewProject() {
     }
   };
 
+  const handleContentFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Lets the same file be picked again after a fix
+    e.target.value = '';
+    if (!file) return;
+
+    const current = normalizeMarketingContent(content);
+    if (current && !isEmptyMarketingContent(current) && !window.confirm('Replace the content you entered with this file?')) {
+      return;
+    }
+
+    setError(null);
+    setIsImporting(true);
+    try {
+      setContent(toMarketingContent(await importContentFile(file)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import the file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!user || !currentProject) return;
     setError(null);
@@ -115,18 +149,21 @@ function NewProject() {
         .update({ settings })
         .eq('id', currentProject.id);
 
+      // Drops the blank rows the form keeps while editing
+      const normalized = useLorem ? null : normalizeMarketingContent(content);
+      const marketingContent = normalized && !isEmptyMarketingContent(normalized) ? normalized : undefined;
+
       // Generate landing page content using AI
       const prompt = useLorem 
         ? `Create a landing page that uses lorem ipsum placeholder text for all marketing content.
         Additional instructions:
         ${additionalInstructions}`
-          : `Create a landing page with the following content:
-        ${marketingContent}
+          : `Create a landing page${marketingContent ? ' using the page content above for all marketing copy' : ''}.
 
         Additional instructions:
         ${additionalInstructions}`;
 
-      const generatedContent = await generateLandingPage(prompt, extractedAssets || undefined);
+      const generatedContent = await generateLandingPage(prompt, extractedAssets || undefined, undefined, marketingContent);
 
       if (generatedContent.error) {
         throw new Error(generatedContent.error);
@@ -135,14 +172,15 @@ function NewProject() {
       // Create a new version with the generated content
       await createVersion({
         project_id: currentProject.id,
-        version_number: 2,
         html_content: generatedContent.html,
-        marketing_content: marketingContent,
+        marketing_content: marketingContent ? JSON.stringify(marketingContent) : '',
         prompt_instructions: additionalInstructions,
-        created_by: user.id,
-        is_current: true,
       });
 
+      // Finishes in the background; the Dashboard picks it up on its next load
+      updateProjectThumbnail(currentProject.id, generatedContent.html)
+        .catch(err => console.error('Error updating thumbnail:', err));
+
       navigate(`/project/${currentProject.id}`);
     } catch (err) {
       if (err instanceof Error) {
@@ -285,20 +323,32 @@ function NewProject() {
               </div>
               {!useLorem && (
                 <div>
-                  <label
-                    htmlFor="marketingContent"
-                    className="block text-sm font-medium text-gray-700"
-                  >
-                    Marketing Content
-                  </label>
-                  <textarea
-                    id="marketingContent"
-                    rows={6}
-                    value={marketingContent}
-                    onChange={(e) => setMarketingContent(e.target.value)}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2"
-                    placeholder="Enter your marketing content here..."
-                  />
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700">Marketing Content</h3>
+                      <p className="text-sm text-gray-500">
+                        {content.source
+                          ? `Imported from ${content.source.name}. Check each block below.`
+                          : 'Fill in the blocks your page needs, or import a Markdown, Word (.docx), PDF or text file.'}
+                      </p>
+                    </div>
+                    <label className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                      {isImporting ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Upload className="h-4 w-4 mr-1" />
+                      )}
+                      Import from file
+                      <input
+                        type="file"
+                        accept={CONTENT_FILE_TYPES}
+                        onChange={handleContentFile}
+                        disabled={isImporting}
+                        className="sr-only"
+                      />
+                    </label>
+                  </div>
+                  <MarketingContentForm content={content} onChange={setContent} />
                 </div>
               )}
             </div>
@@ -338,11 +388,21 @@ function NewProject() {
                             key={color}
                             className="w-8 h-8 rounded-full border border-gray-200"
                             style={{ backgroundColor: color }}
-                            title={color}
+                            title={extractedAssets.colorSources?.[color] === 'logo' ? `${color} (from logo)` : color}
                           />
                         ))}
                       </div>
                     </div>
+                    {brandMatch && (
+                      <p className="mb-4 text-xs text-gray-500">
+                        Matched to brand "{brandMatch.brand}":{' '}
+                        {[
+                          brandMatch.logo ? 'logo' : null,
+                          brandMatch.colors.length ? `${brandMatch.colors.length} colors` : null,
+                          brandMatch.images.length ? `${brandMatch.images.length} images` : null,
+                        ].filter(Boolean).join(', ') || 'no brand-specific assets found'}
+                      </p>
+                    )}
                     <div>
                       <h4 className="text-xs font-medium text-gray-500 mb-2">
                         Fonts
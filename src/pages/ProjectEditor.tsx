@@ -1,7 +1,7 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams, useBlocker } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import Editor from '@monaco-editor/react';
+import Editor, { type OnMount } from '@monaco-editor/react';
 import {
   Save,
   History,
@@ -13,63 +13,359 @@ import {
   RefreshCw,
   Split,
   Wand2,
+  XCircle,
+  MousePointerClick,
+  MessageSquare,
+  GitCompare,
+  CheckCircle2,
+  Lock,
+  Unlock,
+  Globe,
+  Rocket,
+  Palette,
+  Accessibility,
 } from 'lucide-react';
 import Navbar from '../components/Navbar';
-import { getProjectVersions, createVersion } from '../lib/supabase';
-import { generateLandingPage } from '../lib/ai';
-import type { Version } from '../types/database';
+import RefinementPanel from '../components/RefinementPanel';
+import VersionDiff from '../components/VersionDiff';
+import PublicLinkPanel from '../components/PublicLinkPanel';
+import DeployPanel from '../components/DeployPanel';
+import BrandFidelityPanel from '../components/BrandFidelityPanel';
+import AccessibilityPanel from '../components/AccessibilityPanel';
+import {
+  getProject,
+  getProjectVersions,
+  createVersion,
+  setCurrentVersion,
+  publishVersion,
+  reopenProject,
+  updateProject,
+  updateProjectSlug,
+  getDraft,
+  saveDraft,
+  deleteDraft,
+} from '../lib/supabase';
+import {
+  fetchAvailableModels,
+  refineLandingPage,
+  regenerateFragment,
+  streamLandingPage,
+  type OutputIssue,
+} from '../lib/ai';
+import {
+  SECTION_SELECT_MESSAGE,
+  buildSectionPickerDocument,
+  describeRange,
+  findElementRange,
+  spliceRange,
+  type SourceRange,
+} from '../lib/sections';
+import { updateProjectThumbnail } from '../lib/thumbnail';
+import { parseMarketingContent } from '../lib/content';
+import { analyzeBrandFidelity, fixBrandFidelity, type FidelityIssue } from '../lib/brandFidelity';
+import { auditAccessibility, type AccessibilityIssue } from '../lib/accessibility';
+import type {
+  Draft,
+  ModelOption,
+  ModelSelection,
+  Project,
+  RefinementTurn,
+  Version,
+} from '../types/database';
+
+// Edits are written to the user's draft once typing pauses for this long
+const AUTOSAVE_DELAY = 2000;
+
+type CodeEditor = Parameters<OnMount>[0];
+type DecorationsCollection = ReturnType<CodeEditor['createDecorationsCollection']>;
+
+// Tints the lines of accessibility issues in the editor, replacing the
+// previous highlights
+function highlightIssues(
+  editor: CodeEditor,
+  issues: AccessibilityIssue[],
+  previous: DecorationsCollection | null
+): DecorationsCollection | null {
+  previous?.clear();
+  const model = editor.getModel();
+  if (!model) return null;
+  return editor.createDecorationsCollection(
+    issues
+      .filter(issue => issue.start !== null && issue.end !== null)
+      .map(issue => {
+        const start = model.getPositionAt(issue.start!);
+        const end = model.getPositionAt(issue.end!);
+        return {
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+          options: {
+            isWholeLine: true,
+            className: issue.severity === 'error' ? 'bg-red-50' : 'bg-yellow-50',
+            hoverMessage: { value: issue.message },
+          },
+        };
+      })
+  );
+}
 
 function ProjectEditor() {
   const { projectId } = useParams();
+  // Set by the history page's Branch action
+  const [searchParams] = useSearchParams();
+  const requestedVersionId = searchParams.get('version');
   const navigate = useNavigate();
   const { user } = useAuth();
+  const [project, setProject] = useState<Project | null>(null);
   const [versions, setVersions] = useState<Version[]>([]);
-  const [currentVersion, setCurrentVersion] = useState<Version | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<Version | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [isPromoting, setIsPromoting] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // What the server found wrong with the last generated or refined page
+  const [outputIssues, setOutputIssues] = useState<OutputIssue[]>([]);
   const [showVersionHistory, setShowVersionHistory] = useState(false);
+  // Up to two versions ticked in the history sidebar for comparison
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showDiff, setShowDiff] = useState(false);
   const [editorContent, setEditorContent] = useState('');
   const [viewMode, setViewMode] = useState<'code' | 'preview' | 'split'>('split');
   const [aiPrompt, setAiPrompt] = useState('');
   const [showAiPrompt, setShowAiPrompt] = useState(false);
+  const [showPublicLink, setShowPublicLink] = useState(false);
+  const [showDeploy, setShowDeploy] = useState(false);
+  const [showBrandFidelity, setShowBrandFidelity] = useState(false);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  const [availableModels, setAvailableModels] = useState<ModelOption[]>([]);
+  const [selectedSection, setSelectedSection] = useState<(SourceRange & { fragment: string }) | null>(null);
+  const [sectionInstruction, setSectionInstruction] = useState('');
+  const [isPickingSection, setIsPickingSection] = useState(false);
+  const [isRegeneratingSection, setIsRegeneratingSection] = useState(false);
+  const [showRefinement, setShowRefinement] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
+  // Set when branching from an earlier turn; otherwise the conversation is
+  // the one stored on the selected version
+  const [branchPoint, setBranchPoint] = useState<{ version: Version; turns: RefinementTurn[] } | null>(null);
+  // A draft left over from an earlier session, offered for recovery
+  const [recoveredDraft, setRecoveredDraft] = useState<Draft | null>(null);
+  const [draftStatus, setDraftStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  // Whether a draft row exists, so it can be deleted once edits are saved
+  const hasDraftRef = useRef(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const contentBeforeGenerationRef = useRef('');
+  const editorRef = useRef<CodeEditor | null>(null);
+  const issueDecorationsRef = useRef<DecorationsCollection | null>(null);
+  // Source offset to reveal when the editor next mounts
+  const pendingOffsetRef = useRef<number | null>(null);
+  const previewRef = useRef<HTMLIFrameElement | null>(null);
+  const editorContentRef = useRef('');
+  editorContentRef.current = editorContent;
 
   const loadVersions = useCallback(async () => {
     if (!projectId) return;
     setIsLoading(true);
     try {
-      const data = await getProjectVersions(projectId);
+      const [projectData, data, draft] = await Promise.all([
+        getProject(projectId),
+        getProjectVersions(projectId),
+        getDraft(projectId),
+      ]);
+      setProject(projectData);
       setVersions(data);
-      const currentVer = data.find(v => v.is_current) || data[0];
-      setCurrentVersion(currentVer);
-      if (currentVer) {
-        setEditorContent(currentVer.html_content || '');
+      const selectedVer = data.find(v => v.id === requestedVersionId)
+        || data.find(v => v.is_current)
+        || data[0];
+      setSelectedVersion(selectedVer);
+      if (selectedVer) {
+        setEditorContent(selectedVer.html_content || '');
+      }
+      // Only offer drafts that differ from the version they started from;
+      // anything else is removed by the next autosave
+      hasDraftRef.current = !!draft;
+      const draftBase = draft && data.find(v => v.id === draft.base_version_id);
+      if (draft && draft.html_content !== (draftBase?.html_content ?? '')) {
+        setRecoveredDraft(draft);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load project versions');
     } finally {
       setIsLoading(false);
     }
-  }, [projectId]);
+  }, [projectId, requestedVersionId]);
 
   useEffect(() => {
     loadVersions();
   }, [loadVersions]);
 
+  // A published project is read-only until it is reopened
+  const isPublished = project?.status === 'final';
+  const publishedVersion = isPublished
+    ? versions.find(v => v.id === project?.published_version_id)
+    : undefined;
+
+  const isDirty = !isLoading && editorContent !== (selectedVersion?.html_content || '');
+  // Every version is checked against the style guide scraped for the project
+  const brandStyle = project?.settings?.extracted_styles;
+  const fidelityReport = useMemo(
+    () => (brandStyle ? analyzeBrandFidelity(editorContent, brandStyle) : null),
+    [editorContent, brandStyle]
+  );
+  // Only audited while the panel is open. The scraped style guide adds the
+  // contrast of the brand's own colours.
+  const accessibilityIssues = useMemo(
+    () => (showAccessibility ? auditAccessibility(editorContent, brandStyle) : []),
+    [showAccessibility, editorContent, brandStyle]
+  );
+
+  useEffect(() => {
+    if (!editorRef.current) return;
+    issueDecorationsRef.current = highlightIssues(editorRef.current, accessibilityIssues, issueDecorationsRef.current);
+  }, [accessibilityIssues]);
+
+  // Debounced autosave: unsaved edits go to the draft, and the draft is
+  // deleted once the editor matches a saved version again. Paused while a
+  // generation streams in and while a recovered draft awaits a decision.
+  useEffect(() => {
+    if (!projectId || isLoading || isGenerating || recoveredDraft) return;
+    if (!isDirty && !hasDraftRef.current) return;
+    if (isDirty) {
+      setDraftStatus('idle');
+    }
+    const timeout = setTimeout(async () => {
+      setDraftStatus('saving');
+      try {
+        if (isDirty) {
+          await saveDraft(projectId, editorContent, selectedVersion?.id ?? null);
+          hasDraftRef.current = true;
+          setDraftStatus('saved');
+        } else {
+          await deleteDraft(projectId);
+          hasDraftRef.current = false;
+          setDraftStatus('idle');
+        }
+      } catch (err) {
+        console.error('Error saving draft:', err);
+        setDraftStatus('error');
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [projectId, editorContent, selectedVersion, isDirty, isLoading, isGenerating, recoveredDraft]);
+
+  // In-app navigation away from the editor (the back arrow, navbar links)
+  const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+    isDirty && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') return;
+    if (window.confirm('You have unsaved changes. Leave anyway? They are kept as a draft you can restore later.')) {
+      // The debounced autosave may not have run yet
+      if (projectId) {
+        saveDraft(projectId, editorContentRef.current, selectedVersion?.id ?? null)
+          .catch(err => console.error('Error saving draft:', err));
+      }
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker, projectId, selectedVersion]);
+
+  // Closing or reloading the tab
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      // Older browsers only prompt when returnValue is set
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const handleRestoreDraft = () => {
+    if (!recoveredDraft) return;
+    const base = versions.find(v => v.id === recoveredDraft.base_version_id);
+    if (base) {
+      setSelectedVersion(base);
+    }
+    setEditorContent(recoveredDraft.html_content);
+    setRecoveredDraft(null);
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!projectId) return;
+    setRecoveredDraft(null);
+    try {
+      await deleteDraft(projectId);
+      hasDraftRef.current = false;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard draft');
+    }
+  };
+
+  useEffect(() => {
+    fetchAvailableModels()
+      .then(setAvailableModels)
+      .catch(err => console.error('Error loading models:', err));
+  }, []);
+
+  const handleModelChange = async (value: string) => {
+    if (!project) return;
+    // Option values are "provider:model"; model IDs may themselves contain ':'
+    const separator = value.indexOf(':');
+    const model: ModelSelection | undefined = separator === -1
+      ? undefined
+      : {
+          provider: value.slice(0, separator) as ModelSelection['provider'],
+          model: value.slice(separator + 1),
+        };
+    try {
+      const updated = await updateProject(project.id, {
+        settings: { ...project.settings, model },
+      });
+      setProject(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update model');
+    }
+  };
+
+  // Mirrors the database: at most one version per project is current
+  const withCurrent = (list: Version[], current: Version) =>
+    list.map(v => (v.id === current.id ? current : { ...v, is_current: false }));
+
+  // Re-renders the Dashboard thumbnail in the background when the current
+  // version changes; on failure the previous thumbnail stays
+  const refreshThumbnail = (version: Version) => {
+    if (!version.is_current || !version.html_content) return;
+    updateProjectThumbnail(version.project_id, version.html_content)
+      .then(updated => setProject(current => current && { ...current, thumbnail_url: updated.thumbnail_url }))
+      .catch(err => console.error('Error updating thumbnail:', err));
+  };
+
+  const addVersion = (newVersion: Version) => {
+    setVersions([newVersion, ...(newVersion.is_current ? withCurrent(versions, newVersion) : versions)]);
+    setSelectedVersion(newVersion);
+    refreshThumbnail(newVersion);
+  };
+
   const handleSave = async () => {
     if (!projectId || !user) return;
     setIsSaving(true);
     try {
       const newVersion = await createVersion({
         project_id: projectId,
-        version_number: (versions.length || 0) + 1,
         html_content: editorContent,
-        created_by: user.id,
-        is_current: true,
+        // The copy stays with the page across edits
+        marketing_content: selectedVersion?.marketing_content,
+        parent_version_id: selectedVersion?.id,
       });
-      setVersions([newVersion, ...versions]);
-      setCurrentVersion(newVersion);
+      addVersion(newVersion);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save version');
     } finally {
@@ -77,14 +373,93 @@ function ProjectEditor() {
     }
   };
 
+  // Restores an older version (or promotes a branch) as the live one
+  const handleSetCurrent = async () => {
+    if (!selectedVersion) return;
+    setIsPromoting(true);
+    try {
+      const promoted = await setCurrentVersion(selectedVersion.id);
+      setVersions(withCurrent(versions, promoted));
+      setSelectedVersion(promoted);
+      refreshThumbnail(promoted);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set current version');
+    } finally {
+      setIsPromoting(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!selectedVersion) return;
+    if (isDirty) {
+      setError('Save your changes as a version before publishing');
+      return;
+    }
+    if (!window.confirm(`Publish Version ${selectedVersion.version_number} as final? The project is locked until it is reopened.`)) {
+      return;
+    }
+    setIsPublishing(true);
+    setError(null);
+    try {
+      const published = await publishVersion(selectedVersion.id);
+      const current = { ...selectedVersion, is_current: true };
+      setProject(published);
+      setVersions(withCurrent(versions, current));
+      setSelectedVersion(current);
+      refreshThumbnail(current);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish version');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!project) return;
+    setIsPublishing(true);
+    setError(null);
+    try {
+      setProject(await reopenProject(project.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reopen project');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleSlugSave = async (slug: string | null) => {
+    if (!project) return;
+    setProject(await updateProjectSlug(project.id, slug));
+  };
+
   const handleVersionSelect = (version: Version) => {
-    setCurrentVersion(version);
+    if (isDirty && !window.confirm('Switching versions discards your unsaved changes. Continue?')) {
+      return;
+    }
+    setBranchPoint(null);
+    setSelectedVersion(version);
     setEditorContent(version.html_content || '');
     setShowVersionHistory(false);
+    setShowDiff(false);
+  };
+
+  const toggleCompare = (versionId: string) => {
+    setCompareIds(ids =>
+      ids.includes(versionId)
+        ? ids.filter(id => id !== versionId)
+        // Ticking a third version drops the oldest pick
+        : [...ids, versionId].slice(-2)
+    );
   };
 
+  // The older version is always the base, whichever order they were ticked in
+  const comparePair = compareIds
+    .map(id => versions.find(v => v.id === id))
+    .filter((v): v is Version => !!v)
+    .sort((a, b) => a.version_number - b.version_number);
+
   const handleEditorChange = (value: string | undefined) => {
-    if (value !== undefined) {
+    if (value !== undefined && !isPublished) {
       setEditorContent(value);
     }
   };
@@ -95,27 +470,261 @@ function ProjectEditor() {
       return;
     }
 
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    contentBeforeGenerationRef.current = editorContent;
     setIsGenerating(true);
     setError(null);
+    setOutputIssues([]);
 
     try {
-      const result = await generateLandingPage(
-        aiPrompt, 
-        currentVersion?.settings
+      const result = await streamLandingPage(
+        aiPrompt,
+        // Versions don't store a style; the scraped one lives on the project
+        project?.settings?.extracted_styles,
+        {
+          model: project?.settings?.model,
+          // Regenerating keeps the version's copy
+          content: parseMarketingContent(selectedVersion?.marketing_content) || undefined,
+          signal: controller.signal,
+          onChunk: (html) => setEditorContent(html),
+        }
       );
       if (result.error) {
+        setEditorContent(contentBeforeGenerationRef.current);
         setError(result.error);
       } else {
         setEditorContent(result.html);
+        setOutputIssues(result.issues || []);
         setShowAiPrompt(false);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message :   'Failed to generate content');
+      setEditorContent(contentBeforeGenerationRef.current);
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to generate content');
+      }
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // Abort any in-flight generation when leaving the editor
+  useEffect(() => {
+    return () => generationAbortRef.current?.abort();
+  }, []);
+
+  const selectSection = useCallback((range: SourceRange) => {
+    setSelectedSection({
+      ...range,
+      fragment: editorContentRef.current.slice(range.start, range.end),
+    });
+
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (editor && model) {
+      const start = model.getPositionAt(range.start);
+      const end = model.getPositionAt(range.end);
+      editor.setSelection({
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column,
+      });
+      editor.revealLineInCenter(start.lineNumber);
+    }
+  }, []);
+
+  // The preview reports the source offset of the clicked block while picking
+  useEffect(() => {
+    if (!isPickingSection) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== previewRef.current?.contentWindow) return;
+      if (event.data?.type !== SECTION_SELECT_MESSAGE) return;
+
+      const range = findElementRange(editorContentRef.current, event.data.start);
+      if (range) {
+        selectSection(range);
+      } else {
+        setError('Could not find the end of the selected block in the source');
+      }
+      setIsPickingSection(false);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [isPickingSection, selectSection]);
+
+  const handleBrandFix = () => {
+    if (!brandStyle || isPublished) return;
+    setEditorContent(fixBrandFidelity(editorContent, brandStyle).html);
+  };
+
+  // Moves the cursor to an issue without selecting it, which would offer the
+  // block for regeneration
+  const revealOffset = (editor: CodeEditor, offset: number) => {
+    const model = editor.getModel();
+    if (!model) return;
+    const position = model.getPositionAt(offset);
+    editor.setPosition(position);
+    editor.revealLineInCenter(position.lineNumber);
+    editor.focus();
+  };
+
+  const showSourceOffset = (offset: number) => {
+    if (viewMode === 'preview' || !editorRef.current) {
+      // The editor is not mounted; jump once it is
+      pendingOffsetRef.current = offset;
+      setViewMode('split');
+      return;
+    }
+    revealOffset(editorRef.current, offset);
+  };
+
+  const handleEditorMount: OnMount = (editor) => {
+    editorRef.current = editor;
+    editor.onDidChangeCursorSelection(({ selection }) => {
+      const model = editor.getModel();
+      if (!model || selection.isEmpty()) return;
+      const start = model.getOffsetAt(selection.getStartPosition());
+      const end = model.getOffsetAt(selection.getEndPosition());
+      setSelectedSection({ start, end, fragment: model.getValue().slice(start, end) });
+    });
+    // Highlights of a previous editor instance went with it
+    issueDecorationsRef.current = highlightIssues(editor, accessibilityIssues, null);
+    if (pendingOffsetRef.current !== null) {
+      revealOffset(editor, pendingOffsetRef.current);
+      pendingOffsetRef.current = null;
+    }
+  };
+
+  const handleStartPicking = () => {
+    if (viewMode === 'code') setViewMode('split');
+    setIsPickingSection(!isPickingSection);
+  };
+
+  const handleRegenerateSection = async () => {
+    if (!selectedSection) return;
+    if (!sectionInstruction.trim()) {
+      setError('Please describe how the selected block should change');
+      return;
+    }
+    // Offsets are only valid for the text they were taken from
+    if (editorContent.slice(selectedSection.start, selectedSection.end) !== selectedSection.fragment) {
+      setError('The selected block has changed since it was selected. Please select it again.');
+      setSelectedSection(null);
+      return;
+    }
+
+    setIsRegeneratingSection(true);
+    setError(null);
+
+    try {
+      const result = await regenerateFragment(
+        selectedSection.fragment,
+        sectionInstruction,
+        project?.settings?.extracted_styles,
+        project?.settings?.model
+      );
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setEditorContent(spliceRange(editorContent, selectedSection, result.html));
+        setSelectedSection(null);
+        setSectionInstruction('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate section');
+    } finally {
+      setIsRegeneratingSection(false);
+    }
+  };
+
+  const conversation = branchPoint
+    ?? (selectedVersion ? { version: selectedVersion, turns: selectedVersion.refinement_history || [] } : null);
+
+  const runRefinement = async (
+    instruction: string,
+    base: Version,
+    previousTurns: RefinementTurn[],
+    html: string
+  ) => {
+    if (!projectId || !user) return;
+    setIsRefining(true);
+    setError(null);
+    setOutputIssues([]);
+
+    try {
+      const result = await refineLandingPage(
+        html,
+        previousTurns.map(turn => ({ instruction: turn.instruction, base_version_id: turn.base_version_id })),
+        instruction,
+        project?.settings?.extracted_styles,
+        project?.settings?.model
+      );
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+
+      const newVersion = await createVersion({
+        project_id: projectId,
+        html_content: result.html,
+        marketing_content: base.marketing_content,
+        prompt_instructions: instruction,
+        refinement_history: [
+          ...previousTurns,
+          { instruction, base_version_id: base.id, created_at: new Date().toISOString() },
+        ],
+        parent_version_id: base.id,
+      });
+      addVersion(newVersion);
+      setEditorContent(newVersion.html_content || '');
+      setOutputIssues(result.issues || []);
+      setBranchPoint(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refine landing page');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleRefinementSend = (instruction: string) => {
+    if (!conversation) return;
+    runRefinement(instruction, conversation.version, conversation.turns, editorContent);
+  };
+
+  // Re-runs a turn against the version it was originally applied to
+  const handleRefinementReplay = (index: number) => {
+    if (!conversation) return;
+    const turn = conversation.turns[index];
+    const base = versions.find(v => v.id === turn.base_version_id);
+    if (!base) {
+      setError('The version this instruction was applied to no longer exists');
+      return;
+    }
+    runRefinement(turn.instruction, base, conversation.turns.slice(0, index), base.html_content || '');
+  };
+
+  const handleRefinementBranch = (index: number) => {
+    if (!conversation) return;
+    const turns = conversation.turns;
+    const resultId = index < turns.length - 1 ? turns[index + 1].base_version_id : conversation.version.id;
+    const version = versions.find(v => v.id === resultId);
+    if (!version) {
+      setError('The version produced by this turn no longer exists');
+      return;
+    }
+    setSelectedVersion(version);
+    setEditorContent(version.html_content || '');
+    setBranchPoint({ version, turns: turns.slice(0, index + 1) });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -141,7 +750,7 @@ function ProjectEditor() {
               <ArrowLeft className="h-5 w-5" />
             </button>
             <h1 className="text-2xl font-bold text-gray-900">
-              {currentVersion?.project_id}
+              {project?.name || selectedVersion?.project_id}
             </h1>
           </div>
           <div className="flex items-center space-x-4">
@@ -180,6 +789,30 @@ function ProjectEditor() {
                 <Eye className="h-4 w-4" />
               </button>
             </div>
+            <button
+              onClick={handleStartPicking}
+              disabled={isPublished}
+              className={`px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 ${
+                isPickingSection
+                  ? 'bg-gray-200 text-gray-700'
+                  : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+              title="Select a section in the preview"
+            >
+              <MousePointerClick className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setShowRefinement(!showRefinement)}
+              disabled={isPublished}
+              className={`px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 ${
+                showRefinement
+                  ? 'bg-gray-200 text-gray-700'
+                  : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+              title="Refine with chat"
+            >
+              <MessageSquare className="h-4 w-4" />
+            </button>
             <button
               onClick={() => setShowVersionHistory(!showVersionHistory)}
               className={`px-4 py-2 rounded-md text-sm font-medium ${
@@ -191,8 +824,54 @@ function ProjectEditor() {
               <History className="h-4 w-4" />
             </button>
             <button
-              onClick={() => setShowAiPrompt(!showAiPrompt)}
+              onClick={() => setShowPublicLink(!showPublicLink)}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                showPublicLink
+                  ? 'bg-gray-200 text-gray-700'
+                  : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+              title="Public URL"
+            >
+              <Globe className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setShowDeploy(!showDeploy)}
               className={`px-4 py-2 rounded-md text-sm font-medium ${
+                showDeploy
+                  ? 'bg-gray-200 text-gray-700'
+                  : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+              title="Deploy"
+            >
+              <Rocket className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setShowBrandFidelity(!showBrandFidelity)}
+              className={`inline-flex items-center px-4 py-2 rounded-md text-sm font-medium ${
+                showBrandFidelity
+                  ? 'bg-gray-200 text-gray-700'
+                  : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+              title="Brand fidelity"
+            >
+              <Palette className="h-4 w-4" />
+              {fidelityReport && <span className="ml-2">{fidelityReport.score}%</span>}
+            </button>
+            <button
+              onClick={() => setShowAccessibility(!showAccessibility)}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                showAccessibility
+                  ? 'bg-gray-200 text-gray-700'
+                  : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+              title="Accessibility audit"
+            >
+              <Accessibility className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setShowAiPrompt(!showAiPrompt)}
+              disabled={isPublished}
+              className={`px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 ${
                 showAiPrompt
                   ? 'bg-gray-200 text-gray-700'
                   : 'bg-white text-gray-700 border border-gray-300'
@@ -200,9 +879,64 @@ function ProjectEditor() {
             >
               <Wand2 className="h-4 w-4" />
             </button>
+            {isDirty && (
+              <span className="text-xs text-gray-500">
+                {draftStatus === 'saving'
+                  ? 'Saving draft…'
+                  : draftStatus === 'saved'
+                    ? 'Draft saved'
+                    : draftStatus === 'error'
+                      ? 'Draft not saved'
+                      : 'Unsaved changes'}
+              </span>
+            )}
+            {selectedVersion && !selectedVersion.is_current && !isPublished && (
+              <button
+                onClick={handleSetCurrent}
+                disabled={isPromoting}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                title={`Make Version ${selectedVersion.version_number} the current version`}
+              >
+                {isPromoting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                )}
+                Set as current
+              </button>
+            )}
+            {isPublished ? (
+              <button
+                onClick={handleReopen}
+                disabled={isPublishing}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                title="Unlock the project for editing"
+              >
+                {isPublishing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Unlock className="h-4 w-4 mr-2" />
+                )}
+                Reopen
+              </button>
+            ) : (
+              <button
+                onClick={handlePublish}
+                disabled={isPublishing || !selectedVersion}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                title={selectedVersion ? `Publish Version ${selectedVersion.version_number} as final` : undefined}
+              >
+                {isPublishing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Lock className="h-4 w-4 mr-2" />
+                )}
+                Publish
+              </button>
+            )}
             <button
               onClick={handleSave}
-              disabled={isSaving}
+              disabled={isSaving || isPublished}
               className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
             >
               {isSaving ? (
@@ -227,8 +961,123 @@ function ProjectEditor() {
           </div>
         )}
 
+        {/* Generated Output Issues */}
+        {outputIssues.length > 0 && (
+          <div className="mb-6 p-4 bg-yellow-50 rounded-md">
+            <div className="flex items-start justify-between">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-yellow-400" />
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-yellow-800">
+                    The generated page needed attention
+                  </h3>
+                  <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+                    {outputIssues.map((issue, index) => (
+                      <li key={index}>
+                        {issue.message}
+                        {issue.fixed && (
+                          <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                            fixed
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+              <button
+                onClick={() => setOutputIssues([])}
+                className="text-yellow-500 hover:text-yellow-700"
+                title="Dismiss"
+              >
+                <XCircle className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Published Notice */}
+        {isPublished && (
+          <div className="mb-6 p-4 bg-green-50 rounded-md">
+            <div className="flex">
+              <Lock className="h-5 w-5 text-green-500" />
+              <div className="ml-3">
+                <h3 className="text-sm font-medium text-green-800">
+                  Published
+                  {publishedVersion ? ` Version ${publishedVersion.version_number}` : ''}
+                  {project?.published_at && ` on ${new Date(project.published_at).toLocaleString()}`}
+                  {project?.published_by && `, approved by ${project.published_by === user?.id ? 'you' : `user ${project.published_by.slice(0, 8)}`}`}
+                </h3>
+                <p className="mt-1 text-sm text-green-700">
+                  The project is read-only. Reopen it to make changes.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Public URL */}
+        {showPublicLink && project && (
+          <PublicLinkPanel key={project.slug ?? ''} project={project} onSave={handleSlugSave} />
+        )}
+
+        {/* Deployment */}
+        {showDeploy && project && (
+          <DeployPanel project={project} onProjectUpdate={setProject} />
+        )}
+
+        {/* Brand Fidelity */}
+        {showBrandFidelity && (
+          <BrandFidelityPanel
+            report={fidelityReport}
+            readOnly={isPublished}
+            onFix={handleBrandFix}
+            onShowIssue={(issue: FidelityIssue) => showSourceOffset(issue.start)}
+          />
+        )}
+
+        {/* Accessibility Audit */}
+        {showAccessibility && (
+          <AccessibilityPanel
+            issues={accessibilityIssues}
+            onShowIssue={(issue: AccessibilityIssue) => {
+              if (issue.start !== null) showSourceOffset(issue.start);
+            }}
+          />
+        )}
+
+        {/* Draft Recovery */}
+        {recoveredDraft && !isPublished && (
+          <div className="mb-6 p-4 bg-yellow-50 rounded-md">
+            <div className="flex items-center justify-between">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-yellow-400" />
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-yellow-800">
+                    You have unsaved changes from {new Date(recoveredDraft.updated_at).toLocaleString()}
+                  </h3>
+                </div>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleRestoreDraft}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+                >
+                  Restore draft
+                </button>
+                <button
+                  onClick={handleDiscardDraft}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* AI Prompt */}
-        {showAiPrompt && (
+        {showAiPrompt && !isPublished && (
           <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
             <div className="flex items-start space-x-4">
               <div className="flex-1">
@@ -246,6 +1095,41 @@ function ProjectEditor() {
                   placeholder="E.g., Create a modern landing page for a SaaS product with a hero section, features, and pricing"
                   className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                 />
+                <div className="mt-2 flex items-center gap-2">
+                  <label htmlFor="ai-model" className="text-sm text-gray-500">
+                    Model
+                  </label>
+                  <select
+                    id="ai-model"
+                    value={
+                      project?.settings?.model
+                        ? `${project.settings.model.provider}:${project.settings.model.model}`
+                        : ''
+                    }
+                    onChange={(e) => handleModelChange(e.target.value)}
+                    disabled={isGenerating}
+                    className="border border-gray-300 rounded-md py-1 pl-2 pr-8 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">Server default</option>
+                    {project?.settings?.model &&
+                      !availableModels.some(
+                        (m) =>
+                          m.provider === project.settings.model?.provider &&
+                          m.id === project.settings.model?.model
+                      ) && (
+                        <option
+                          value={`${project.settings.model.provider}:${project.settings.model.model}`}
+                        >
+                          {project.settings.model.provider} / {project.settings.model.model}
+                        </option>
+                      )}
+                    {availableModels.map((m) => (
+                      <option key={`${m.provider}:${m.id}`} value={`${m.provider}:${m.id}`}>
+                        {m.provider} / {m.id}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
               <button
                 onClick={handleGenerateContent}
@@ -259,47 +1143,129 @@ function ProjectEditor() {
                 )}
                 Generate
               </button>
+              {isGenerating && (
+                <button
+                  onClick={handleCancelGeneration}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 mt-6"
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Section Regeneration */}
+        {selectedSection && !isPublished && (
+          <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+            <div className="flex items-start space-x-4">
+              <div className="flex-1">
+                <label
+                  htmlFor="section-instruction"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Regenerate {describeRange(editorContent, selectedSection)}
+                </label>
+                <input
+                  id="section-instruction"
+                  type="text"
+                  value={sectionInstruction}
+                  onChange={(e) => setSectionInstruction(e.target.value)}
+                  placeholder="E.g., Make this section darker and shorten the copy"
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2 border"
+                />
+              </div>
+              <button
+                onClick={handleRegenerateSection}
+                disabled={isRegeneratingSection}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 mt-7"
+              >
+                {isRegeneratingSection ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Wand2 className="h-4 w-4 mr-2" />
+                )}
+                Regenerate
+              </button>
+              <button
+                onClick={() => setSelectedSection(null)}
+                disabled={isRegeneratingSection}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 mt-7"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Clear
+              </button>
             </div>
           </div>
         )}
 
         {/* Main Content */}
         <div className="flex gap-6">
-          {/* Editor/Preview */}
-          <div className="flex-1">
-            <div className="bg-white rounded-lg shadow-sm overflow-hidden">
-              <div className={`h-[calc(100vh-16rem)] ${viewMode === 'split' ? 'grid grid-cols-2 gap-2' : ''}`}>
-                {(viewMode === 'code' || viewMode === 'split') && (
-                  <div className={viewMode === 'split' ? 'border-r' : ''}>
-                    <Editor
-                      height="100%"
-                      defaultLanguage="html"
-                      value={editorContent}
-                      onChange={handleEditorChange}
-                      theme="vs-light"
-                      options={{
-                        minimap: { enabled: false },
-                        fontSize: 14,
-                        wordWrap: 'on',
-                        formatOnPaste: true,
-                        formatOnType: true,
-                      }}
-                    />
-                  </div>
-                )}
-                {(viewMode === 'preview' || viewMode === 'split') && (
-                  <div className="h-full overflow-auto bg-white">
-                    <iframe
-                      srcDoc={editorContent}
-                      title="Preview"
-                      className="w-full h-full border-0"
-                      sandbox="allow-scripts"
-                    />
-                  </div>
-                )}
+          {/* Version Comparison */}
+          {showDiff && comparePair.length === 2 ? (
+            <div className="flex-1 min-w-0">
+              <VersionDiff
+                base={comparePair[0]}
+                compare={comparePair[1]}
+                onClose={() => setShowDiff(false)}
+              />
+            </div>
+          ) : (
+            /* Editor/Preview */
+            <div className="flex-1">
+              <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+                <div className={`h-[calc(100vh-16rem)] ${viewMode === 'split' ? 'grid grid-cols-2 gap-2' : ''}`}>
+                  {(viewMode === 'code' || viewMode === 'split') && (
+                    <div className={viewMode === 'split' ? 'border-r' : ''}>
+                      <Editor
+                        height="100%"
+                        defaultLanguage="html"
+                        value={editorContent}
+                        onChange={handleEditorChange}
+                        onMount={handleEditorMount}
+                        theme="vs-light"
+                        options={{
+                          minimap: { enabled: false },
+                          readOnly: isPublished,
+                          fontSize: 14,
+                          wordWrap: 'on',
+                          formatOnPaste: true,
+                          formatOnType: true,
+                        }}
+                      />
+                    </div>
+                  )}
+                  {(viewMode === 'preview' || viewMode === 'split') && (
+                    <div className="h-full overflow-auto bg-white">
+                      <iframe
+                        ref={previewRef}
+                        srcDoc={isPickingSection ? buildSectionPickerDocument(editorContent) : editorContent}
+                        title="Preview"
+                        className="w-full h-full border-0"
+                        sandbox="allow-scripts"
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
+          )}
+
+          {/* Refinement Chat Sidebar */}
+          {showRefinement && conversation && !isPublished && (
+            <div className="w-80">
+              <RefinementPanel
+                turns={conversation.turns}
+                headVersion={conversation.version}
+                versions={versions}
+                isSending={isRefining}
+                onSend={handleRefinementSend}
+                onReplay={handleRefinementReplay}
+                onBranch={handleRefinementBranch}
+              />
+            </div>
+          )}
 
           {/* Version History Sidebar */}
           {showVersionHistory && (
@@ -310,31 +1276,50 @@ function ProjectEditor() {
                 </h3>
                 <div className="space-y-4">
                   {versions.map((version) => (
-                    <button
+                    <div
                       key={version.id}
-                      onClick={() => handleVersionSelect(version)}
-                      className={`w-full text-left p-3 rounded-md ${
-                        currentVersion?.id === version.id
+                      className={`flex items-start p-3 rounded-md ${
+                        selectedVersion?.id === version.id
                           ? 'bg-indigo-50 border-indigo-200'
                           : 'hover:bg-gray-50'
                       }`}
                     >
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm font-medium text-gray-900">
-                          Version {version.version_number}
-                        </span>
-                        {version.is_current && (
-                          <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
-                            Current
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(version.id)}
+                        onChange={() => toggleCompare(version.id)}
+                        title="Select for comparison"
+                        className="mt-1 mr-3 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <button
+                        onClick={() => handleVersionSelect(version)}
+                        className="flex-1 text-left"
+                      >
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm font-medium text-gray-900">
+                            Version {version.version_number}
                           </span>
-                        )}
-                      </div>
-                      <span className="text-xs text-gray-500">
-                        {new Date(version.created_at).toLocaleString()}
-                      </span>
-                    </button>
+                          {version.is_current && (
+                            <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                              Current
+                            </span>
+                          )}
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          {new Date(version.created_at).toLocaleString()}
+                        </span>
+                      </button>
+                    </div>
                   ))}
                 </div>
+                <button
+                  onClick={() => setShowDiff(true)}
+                  disabled={comparePair.length !== 2}
+                  className="mt-4 w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Compare selected
+                </button>
               </div>
             </div>
           )}
@@ -0,0 +1,263 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import {
+  ArrowLeft,
+  RefreshCw,
+  AlertCircle,
+  RotateCcw,
+  GitBranch,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+} from 'lucide-react';
+import Navbar from '../components/Navbar';
+import VersionThumbnail from '../components/VersionThumbnail';
+import { useAuth } from '../context/AuthContext';
+import {
+  getProject,
+  getProjectVersions,
+  getScrapingLogs,
+  setCurrentVersion,
+} from '../lib/supabase';
+import { describeMarketingContent } from '../lib/content';
+import type { Project, ScrapingLog, Version } from '../types/database';
+
+type TimelineEntry =
+  | { type: 'version'; at: string; version: Version }
+  | { type: 'scrape'; at: string; log: ScrapingLog };
+
+function ProjectHistory() {
+  const { projectId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [project, setProject] = useState<Project | null>(null);
+  const [versions, setVersions] = useState<Version[]>([]);
+  const [logs, setLogs] = useState<ScrapingLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      const [projectData, versionData, logData] = await Promise.all([
+        getProject(projectId),
+        getProjectVersions(projectId),
+        getScrapingLogs(projectId),
+      ]);
+      setProject(projectData);
+      setVersions(versionData);
+      setLogs(logData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load project history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRestore = async (version: Version) => {
+    setRestoringId(version.id);
+    setError(null);
+    try {
+      await setCurrentVersion(version.id);
+      await loadHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // Opens the editor on this version; the next save records it as the parent
+  const handleBranch = (version: Version) => {
+    navigate(`/project/${projectId}?version=${version.id}`);
+  };
+
+  const authorLabel = (userId: string) =>
+    userId === user?.id ? 'You' : `User ${userId.slice(0, 8)}`;
+
+  const versionLabel = (versionId: string) => {
+    const version = versions.find(v => v.id === versionId);
+    return version ? `Version ${version.version_number}` : 'a deleted version';
+  };
+
+  const timeline: TimelineEntry[] = [
+    ...versions.map(version => ({ type: 'version' as const, at: version.created_at, version })),
+    ...logs.map(log => ({ type: 'scrape' as const, at: log.created_at, log })),
+  ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="flex items-center justify-center h-[calc(100vh-4rem)]">
+          <RefreshCw className="h-8 w-8 text-gray-400 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center">
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="mr-4 text-gray-500 hover:text-gray-700"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {project?.name} history
+            </h1>
+          </div>
+          <Link
+            to={`/project/${projectId}`}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Open editor
+          </Link>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 rounded-md">
+            <div className="flex">
+              <AlertCircle className="h-5 w-5 text-red-400" />
+              <div className="ml-3">
+                <h3 className="text-sm font-medium text-red-800">{error}</h3>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {timeline.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing has happened in this project yet.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+            {timeline.map(entry => (
+              <li key={entry.type === 'version' ? entry.version.id : entry.log.id} className="ml-6">
+                <span className="absolute -left-1.5 mt-2 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                {entry.type === 'version' ? (
+                  <div className="bg-white rounded-lg shadow-sm p-4 flex gap-4">
+                    <VersionThumbnail version={entry.version} className="flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <h3 className="text-sm font-medium text-gray-900">
+                            Version {entry.version.version_number}
+                          </h3>
+                          {entry.version.is_current && (
+                            <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                              Current
+                            </span>
+                          )}
+                          {entry.version.id === project?.published_version_id && project?.status === 'final' && (
+                            <span className="text-xs bg-indigo-100 text-indigo-800 px-2 py-1 rounded-full">
+                              Published
+                            </span>
+                          )}
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          {new Date(entry.version.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        By {authorLabel(entry.version.created_by)}
+                        {entry.version.parent_version_id && (
+                          <> · based on {versionLabel(entry.version.parent_version_id)}</>
+                        )}
+                      </p>
+                      {entry.version.prompt_instructions && (
+                        <div className="mt-3">
+                          <h4 className="text-xs font-medium text-gray-500">Prompt</h4>
+                          <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-3">
+                            {entry.version.prompt_instructions}
+                          </p>
+                        </div>
+                      )}
+                      {entry.version.marketing_content && (
+                        <details className="mt-3">
+                          <summary className="text-xs font-medium text-gray-500 cursor-pointer">
+                            Marketing content
+                          </summary>
+                          <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">
+                            {describeMarketingContent(entry.version.marketing_content)}
+                          </p>
+                        </details>
+                      )}
+                      <div className="mt-3 flex space-x-2">
+                        <button
+                          onClick={() => handleRestore(entry.version)}
+                          disabled={entry.version.is_current || restoringId !== null || project?.status === 'final'}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                          title={project?.status === 'final'
+                            ? 'Reopen the project in the editor to restore versions'
+                            : 'Make this the current version'}
+                        >
+                          {restoringId === entry.version.id ? (
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                          )}
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => handleBranch(entry.version)}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                          title="Continue editing from this version"
+                        >
+                          <GitBranch className="h-3 w-3 mr-1" />
+                          Branch
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-sm p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        {entry.log.success ? (
+                          <CheckCircle2 className="h-4 w-4 text-green-500" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-red-500" />
+                        )}
+                        <h3 className="text-sm font-medium text-gray-900">
+                          Scraped {entry.log.url}
+                        </h3>
+                      </div>
+                      <span className="text-xs text-gray-500">
+                        {new Date(entry.log.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {entry.log.assets_found.colors} colors, {entry.log.assets_found.fonts} fonts,{' '}
+                      {entry.log.assets_found.images} images
+                      {entry.log.assets_found.logo ? ', logo' : ''} · {(entry.log.duration_ms / 1000).toFixed(1)}s
+                    </p>
+                    {entry.log.errors?.length ? (
+                      <ul className="mt-2 text-xs text-red-600 list-disc list-inside">
+                        {entry.log.errors.map(message => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    ) : null}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ProjectHistory;
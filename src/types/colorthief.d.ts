@@ -1,5 +1,8 @@
 declare module 'colorthief' {
-  export default class ColorThief {
-    getPalette(img: HTMLImageElement, colorCount: number): [number, number, number][];
-  }
-} 
\ No newline at end of file
+  // The Node build, which decodes image buffers and files with sharp
+  const ColorThief: {
+    // null when the image has no usable (opaque, non-white) pixels
+    getPalette(img: Buffer | string, colorCount: number): Promise<[number, number, number][] | null>;
+  };
+  export default ColorThief;
+}
@@ -0,0 +1,84 @@
+export type ContentFormat = 'markdown' | 'docx' | 'pdf' | 'text';
+
+export interface ContentSection {
+  heading: string;
+  paragraphs: string[];
+  bullets: string[];
+}
+
+// An uploaded or typed document split into headline, subheads, lists and
+// button labels. Imports go through this before becoming MarketingContent.
+export interface StructuredContent {
+  headline: string;
+  subheadline?: string;
+  // Paragraphs between the headline and the first subhead
+  intro: string[];
+  sections: ContentSection[];
+  // Button labels, e.g. "Start free trial"
+  ctas: string[];
+  source?: {
+    name: string;
+    format: ContentFormat;
+  };
+}
+
+export interface CallToAction {
+  label: string;
+  // Empty when the page should use a placeholder link
+  url: string;
+}
+
+export interface FeatureItem {
+  title: string;
+  description: string;
+}
+
+export interface Testimonial {
+  quote: string;
+  author: string;
+  role: string;
+}
+
+export interface PricingTier {
+  name: string;
+  price: string;
+  // e.g. "per month"
+  period: string;
+  features: string[];
+  cta: CallToAction;
+  highlighted: boolean;
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+// The copy of a landing page, one field per block. Stored as JSON in
+// Version.marketing_content and rendered into the generation prompt, so a
+// regenerated page keeps the same copy. Empty fields and lists are left out
+// of the page.
+export interface MarketingContent {
+  hero: {
+    headline: string;
+    subheadline: string;
+    cta: CallToAction;
+  };
+  features: {
+    heading: string;
+    items: FeatureItem[];
+  };
+  testimonials: Testimonial[];
+  pricing: PricingTier[];
+  faq: FaqItem[];
+  // The closing call to action
+  cta: {
+    heading: string;
+    text: string;
+    button: CallToAction;
+  };
+  footerLinks: CallToAction[];
+  // Imported copy that fits none of the blocks above
+  extraSections: ContentSection[];
+  source?: StructuredContent['source'];
+}
@@ -8,6 +8,15 @@ export interface Project {
   updated_at: string;
   settings: ProjectSettings;
   thumbnail_url: string | null;
+  // Public URL is /p/<slug>; served only while the project is final
+  slug?: string | null;
+  // Set when the project is published (status 'final'); kept after
+  // reopening as a record of the last approval
+  published_version_id?: string | null;
+  published_at?: string | null;
+  published_by?: string | null;
+  // Joined by getProjects for the Dashboard
+  published_version?: Pick<Version, 'version_number'> | null;
 }
 
 export interface Version {
@@ -22,6 +31,58 @@ export interface Version {
   created_by: string;
   is_current: boolean;
   settings?: WebsiteStyle;
+  refinement_history?: RefinementTurn[];
+  parent_version_id?: string | null;
+}
+
+// Fields a caller supplies for a new version; the number, author and
+// timestamps are filled in by the database. is_current defaults to true.
+export type NewVersion = Pick<Version, 'project_id'> &
+  Partial<Pick<
+    Version,
+    | 'html_content'
+    | 'css_content'
+    | 'marketing_content'
+    | 'prompt_instructions'
+    | 'refinement_history'
+    | 'parent_version_id'
+    | 'is_current'
+  >>;
+
+// One chat turn of the refinement conversation. The HTML it produced is the
+// version that stores the turn last in its history.
+export interface RefinementTurn {
+  instruction: string;
+  base_version_id: string;
+  created_at: string;
+}
+
+// The editor's autosaved, unsaved edits; one per user and project
+export interface Draft {
+  id: string;
+  project_id: string;
+  user_id: string;
+  base_version_id: string | null;
+  html_content: string;
+  updated_at: string;
+}
+
+// One row of scraping_logs, written each time a project's site is scraped
+export interface ScrapingLog {
+  id: string;
+  project_id: string;
+  url: string;
+  success: boolean;
+  assets_found: {
+    colors: number;
+    fonts: number;
+    images: number;
+    logo: boolean;
+    styles: boolean;
+  };
+  errors: string[] | null;
+  duration_ms: number;
+  created_at: string;
 }
 
 export interface Asset {
@@ -34,18 +95,92 @@ export interface Asset {
   created_at: string;
 }
 
+export type LLMProviderId = 'openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export interface ModelSelection {
+  provider: LLMProviderId;
+  model: string;
+}
+
+// Entry returned by GET /api/models
+export interface ModelOption {
+  provider: LLMProviderId;
+  id: string;
+}
+
 export interface ProjectSettings {
   use_lorem_ipsum?: boolean;
   extracted_styles?: WebsiteStyle;
-  deployment?: {
-    platform: 'webflow' | 'custom';
-    settings: Record<string, any>;
-  };
+  model?: ModelSelection;
+  deployment?: DeploymentSettings;
 }
 
+export type DeploymentPlatform = 'webflow' | 'custom';
+
+// The page is pushed into an item of a Webflow CMS collection, whose HTML
+// embed field holds the page. The API token lives on the server. A type
+// rather than an interface so it stays assignable to plain JSON records.
+export type WebflowDeploymentSettings = {
+  site_id: string;
+  collection_id: string;
+  // Slug of the collection field that receives the HTML; "page-html" if unset
+  html_field?: string;
+  // Filled in by the first deployment so later ones update the same item
+  item_id?: string;
+};
+
+// Targets of the 'custom' platform. Credentials and the roots they write
+// under are server configuration; a project only picks a place within them.
+export type CustomDeploymentSettings =
+  // A folder under the server's DEPLOY_FILESYSTEM_ROOT
+  | { target: 'filesystem'; directory: string }
+  // A bucket on the server's S3-compatible endpoint
+  | { target: 's3'; bucket: string; prefix?: string }
+  // A build hook (Netlify-style) that is POSTed the page
+  | { target: 'hook'; url: string };
+
+export type DeploymentSettings =
+  | { platform: 'webflow'; settings: WebflowDeploymentSettings }
+  // Empty settings mean the project is not deployed anywhere
+  | { platform: 'custom'; settings: CustomDeploymentSettings | Record<string, never> };
+
+export type DeploymentStatus = 'pending' | 'success' | 'failed';
+
+// One row of deployments, written by the server each time a project is
+// pushed to its deployment target
+export interface Deployment {
+  id: string;
+  project_id: string;
+  version_id: string | null;
+  platform: DeploymentPlatform;
+  status: DeploymentStatus;
+  external_id: string | null;
+  url: string | null;
+  log: string[];
+  error: string | null;
+  created_by: string;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export type ColorRole = 'primary' | 'secondary' | 'accent' | 'text' | 'background' | 'surface';
+
+// Scraped colours by what they are used for, all #rrggbb
+export type ColorPalette = Record<ColorRole, string>;
+
+// Where a scraped colour was found
+export type ColorSource = 'stylesheet' | 'brand' | 'logo';
+
 export interface WebsiteStyle {
   colors: string[];
+  palette?: ColorPalette;
+  // Keyed by colour in `colors`
+  colorSources?: Record<string, ColorSource>;
   fonts: string[];
+  fontFaces?: {
+    family: string;
+    src: string[];
+  }[];
   images: string[];
   logo?: string;
   metaDescription?: string;
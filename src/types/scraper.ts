@@ -1,9 +1,19 @@
+import type { ColorPalette, ColorSource } from './database';
+
 export interface ScrapedAssets {
   colors: string[];
+  palette?: ColorPalette;
+  colorSources?: Record<string, ColorSource>;
   fonts: string[];
+  fontFaces?: FontFace[];
   images: string[];
   logo?: string;
   headings: string[];
+  brandMatch?: BrandMatch;
+  headerBackgroundColor?: string;
+  footerBackgroundColor?: string;
+  footerLogo?: string;
+  sectionBackgroundColors?: string[];
   styles: {
     spacing: string[];
     borderRadius: string[];
@@ -27,4 +37,18 @@ export interface ScrapedAssets {
       gridGap: string;
     };
   };
-} 
\ No newline at end of file
+} 
+
+// Assets the scrape endpoint picked because they matched the requested brand
+export interface BrandMatch {
+  brand: string;
+  logo: string | null;
+  colors: string[];
+  images: string[];
+}
+
+// A web font declared with @font-face on the scraped page
+export interface FontFace {
+  family: string;
+  src: string[];
+}
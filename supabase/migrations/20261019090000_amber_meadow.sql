@@ -0,0 +1,17 @@
+/*
+  # Store refinement conversations on versions
+
+  1. Changes
+    - `versions`
+      - `refinement_history` (jsonb): the chat turns that led to this version,
+        oldest first. Each turn records the instruction and the version it was
+        applied to (`base_version_id`).
+      - `parent_version_id` (uuid): the version this one was refined or
+        branched from
+*/
+
+ALTER TABLE versions
+  ADD COLUMN IF NOT EXISTS refinement_history jsonb DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS parent_version_id uuid REFERENCES versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_versions_parent_version_id ON versions(parent_version_id);
@@ -0,0 +1,185 @@
+/*
+  # Atomic version numbering and a single current version per project
+
+  1. Data fixes
+    - Renumbers versions in projects where two versions share a number
+    - Leaves only the newest current version marked current, and marks the
+      newest version current in projects that have none
+
+  2. Constraints
+    - `versions (project_id, version_number)` is unique
+    - At most one version per project has `is_current` set (partial unique
+      index); deleting the current version promotes the newest remaining one,
+      so a project with versions always has exactly one current
+
+  3. Functions
+    - `create_version(...)`: inserts a version numbered one past the highest
+      existing number and, by default, makes it the current version
+    - `set_current_version(version_id)`: makes an existing version current
+    Both lock the project row, so concurrent saves cannot pick the same number
+    or leave two versions current. They run as the caller, so RLS still
+    applies.
+*/
+
+-- Renumber projects whose version numbers collide, keeping the existing order
+UPDATE versions
+SET version_number = renumbered.position
+FROM (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY project_id ORDER BY version_number, created_at) AS position
+  FROM versions
+  WHERE project_id IN (
+    SELECT project_id FROM versions
+    GROUP BY project_id, version_number
+    HAVING count(*) > 1
+  )
+) AS renumbered
+WHERE versions.id = renumbered.id;
+
+-- Keep only the newest current version
+UPDATE versions
+SET is_current = false
+WHERE is_current
+AND EXISTS (
+  SELECT 1 FROM versions AS newer
+  WHERE newer.project_id = versions.project_id
+  AND newer.is_current
+  AND newer.version_number > versions.version_number
+);
+
+-- Projects with no current version get their newest one
+UPDATE versions
+SET is_current = true
+WHERE id IN (
+  SELECT DISTINCT ON (project_id) id
+  FROM versions
+  WHERE project_id NOT IN (SELECT project_id FROM versions WHERE is_current)
+  ORDER BY project_id, version_number DESC
+);
+
+ALTER TABLE versions ALTER COLUMN is_current SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_versions_project_version_number
+  ON versions(project_id, version_number);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_versions_one_current_per_project
+  ON versions(project_id) WHERE is_current;
+
+CREATE OR REPLACE FUNCTION create_version(
+  p_project_id uuid,
+  p_html_content text DEFAULT NULL,
+  p_css_content text DEFAULT NULL,
+  p_marketing_content text DEFAULT NULL,
+  p_prompt_instructions text DEFAULT NULL,
+  p_refinement_history jsonb DEFAULT '[]'::jsonb,
+  p_parent_version_id uuid DEFAULT NULL,
+  p_make_current boolean DEFAULT true
+)
+RETURNS versions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_version versions;
+BEGIN
+  -- Serialises version creation per project; also fails cleanly when the
+  -- project does not exist or RLS hides it
+  PERFORM 1 FROM projects WHERE id = p_project_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+
+  IF p_make_current THEN
+    UPDATE versions SET is_current = false
+    WHERE project_id = p_project_id AND is_current;
+  END IF;
+
+  INSERT INTO versions (
+    project_id,
+    version_number,
+    html_content,
+    css_content,
+    marketing_content,
+    prompt_instructions,
+    refinement_history,
+    parent_version_id,
+    created_by,
+    is_current
+  )
+  VALUES (
+    p_project_id,
+    (SELECT coalesce(max(version_number), 0) + 1 FROM versions WHERE project_id = p_project_id),
+    p_html_content,
+    p_css_content,
+    p_marketing_content,
+    p_prompt_instructions,
+    coalesce(p_refinement_history, '[]'::jsonb),
+    p_parent_version_id,
+    auth.uid(),
+    -- The first version of a project is always current
+    p_make_current OR NOT EXISTS (
+      SELECT 1 FROM versions WHERE project_id = p_project_id AND is_current
+    )
+  )
+  RETURNING * INTO new_version;
+
+  UPDATE projects SET updated_at = now() WHERE id = p_project_id;
+
+  RETURN new_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_current_version(p_version_id uuid)
+RETURNS versions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_project_id uuid;
+  promoted versions;
+BEGIN
+  SELECT project_id INTO target_project_id FROM versions WHERE id = p_version_id;
+  IF target_project_id IS NULL THEN
+    RAISE EXCEPTION 'Version % not found', p_version_id;
+  END IF;
+
+  PERFORM 1 FROM projects WHERE id = target_project_id FOR UPDATE;
+
+  -- Two statements: the partial unique index is checked row by row, so the
+  -- old current version has to be cleared before the new one is set
+  UPDATE versions SET is_current = false
+  WHERE project_id = target_project_id AND is_current AND id <> p_version_id;
+
+  UPDATE versions SET is_current = true
+  WHERE id = p_version_id
+  RETURNING * INTO promoted;
+
+  UPDATE projects SET updated_at = now() WHERE id = target_project_id;
+
+  RETURN promoted;
+END;
+$$;
+
+-- Deleting the current version hands the flag to the newest remaining one
+CREATE OR REPLACE FUNCTION promote_latest_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.is_current THEN
+    UPDATE versions SET is_current = true
+    WHERE id = (
+      SELECT id FROM versions
+      WHERE project_id = OLD.project_id
+      ORDER BY version_number DESC
+      LIMIT 1
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS versions_promote_latest ON versions;
+CREATE TRIGGER versions_promote_latest
+  AFTER DELETE ON versions
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_latest_version();
@@ -0,0 +1,52 @@
+/*
+  # Editor drafts
+
+  1. New Tables
+    - `drafts`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users)
+      - `base_version_id` (uuid, references versions): the version the edits
+        started from
+      - `html_content` (text)
+      - `updated_at` (timestamptz)
+    One draft per user and project; the editor autosaves into it and it is
+    cleared once the edits are saved as a version or discarded.
+
+  2. Security
+    - Enable RLS on `drafts`
+    - Users can only manage their own drafts, on projects they own
+*/
+
+CREATE TABLE IF NOT EXISTS drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  base_version_id uuid REFERENCES versions(id) ON DELETE SET NULL,
+  html_content text NOT NULL DEFAULT '',
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, user_id)
+);
+
+ALTER TABLE drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own drafts"
+  ON drafts
+  FOR ALL
+  TO authenticated
+  USING (
+    drafts.user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = drafts.project_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    drafts.user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = drafts.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
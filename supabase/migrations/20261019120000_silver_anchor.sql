@@ -0,0 +1,120 @@
+/*
+  # Publishing projects
+
+  1. Changes
+    - `projects`
+      - `published_version_id` (uuid, references versions): the version frozen
+        as final
+      - `published_at` (timestamptz) and `published_by` (uuid, references
+        auth.users): when and by whom it was approved
+    A final project must name its published version.
+
+  2. Functions
+    - `publish_version(version_id)`: makes the version current, marks its
+      project final and records the approval
+    - `reopen_project(project_id)`: sets a final project back to draft; the
+      approval fields are kept as a record of the last publication
+
+  3. Guards
+    - Versions of a final project cannot be created or changed (including
+      switching the current version) until the project is reopened
+*/
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS published_version_id uuid REFERENCES versions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS published_at timestamptz,
+  ADD COLUMN IF NOT EXISTS published_by uuid REFERENCES auth.users(id);
+
+-- Nothing set final before this migration, but any such project gets its
+-- current version as the published one
+UPDATE projects
+SET
+  published_version_id = (
+    SELECT id FROM versions
+    WHERE versions.project_id = projects.id AND versions.is_current
+  ),
+  published_at = updated_at
+WHERE status = 'final' AND published_version_id IS NULL;
+
+UPDATE projects SET status = 'draft'
+WHERE status = 'final' AND published_version_id IS NULL;
+
+ALTER TABLE projects
+  DROP CONSTRAINT IF EXISTS projects_final_has_published_version,
+  ADD CONSTRAINT projects_final_has_published_version
+    CHECK (status <> 'final' OR published_version_id IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION prevent_final_project_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = NEW.project_id AND status = 'final'
+  ) THEN
+    RAISE EXCEPTION 'This project is published; reopen it to make changes';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS versions_prevent_final_edits ON versions;
+CREATE TRIGGER versions_prevent_final_edits
+  BEFORE INSERT OR UPDATE ON versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_final_project_edits();
+
+CREATE OR REPLACE FUNCTION publish_version(p_version_id uuid)
+RETURNS projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_project_id uuid;
+  published projects;
+BEGIN
+  SELECT project_id INTO target_project_id FROM versions WHERE id = p_version_id;
+  IF target_project_id IS NULL THEN
+    RAISE EXCEPTION 'Version % not found', p_version_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM projects WHERE id = target_project_id AND status = 'final') THEN
+    RAISE EXCEPTION 'This project is already published; reopen it first';
+  END IF;
+
+  -- Locks the project, and must run before the project turns final
+  PERFORM set_current_version(p_version_id);
+
+  UPDATE projects
+  SET
+    status = 'final',
+    published_version_id = p_version_id,
+    published_at = now(),
+    published_by = auth.uid(),
+    updated_at = now()
+  WHERE id = target_project_id
+  RETURNING * INTO published;
+
+  RETURN published;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reopen_project(p_project_id uuid)
+RETURNS projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reopened projects;
+BEGIN
+  UPDATE projects
+  SET status = 'draft', updated_at = now()
+  WHERE id = p_project_id
+  RETURNING * INTO reopened;
+
+  IF reopened.id IS NULL THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+
+  RETURN reopened;
+END;
+$$;
@@ -0,0 +1,83 @@
+/*
+  # Public page URLs
+
+  1. Changes
+    - `projects`
+      - `slug` (text, unique): the public URL is /p/<slug>. Lowercase letters,
+        digits and single hyphens, 3-60 characters. Generated from the project
+        name on first publish when not set.
+
+  2. Functions
+    - `get_published_page(slug)`: the published HTML of a final project, or no
+      row for drafts and unknown slugs. Runs as its owner so anonymous
+      visitors can read exactly this and nothing else.
+    - `publish_version` now assigns a slug when the project has none
+*/
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS slug text;
+
+ALTER TABLE projects
+  DROP CONSTRAINT IF EXISTS projects_slug_format,
+  ADD CONSTRAINT projects_slug_format
+    CHECK (slug IS NULL OR (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND length(slug) BETWEEN 3 AND 60));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_slug ON projects(slug);
+
+CREATE OR REPLACE FUNCTION get_published_page(p_slug text)
+RETURNS TABLE (version_id uuid, html_content text, published_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT versions.id, versions.html_content, projects.published_at
+  FROM projects
+  JOIN versions ON versions.id = projects.published_version_id
+  WHERE projects.slug = p_slug
+  AND projects.status = 'final';
+$$;
+
+REVOKE ALL ON FUNCTION get_published_page(text) FROM public;
+GRANT EXECUTE ON FUNCTION get_published_page(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION publish_version(p_version_id uuid)
+RETURNS projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_project_id uuid;
+  published projects;
+BEGIN
+  SELECT project_id INTO target_project_id FROM versions WHERE id = p_version_id;
+  IF target_project_id IS NULL THEN
+    RAISE EXCEPTION 'Version % not found', p_version_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM projects WHERE id = target_project_id AND status = 'final') THEN
+    RAISE EXCEPTION 'This project is already published; reopen it first';
+  END IF;
+
+  -- Locks the project, and must run before the project turns final
+  PERFORM set_current_version(p_version_id);
+
+  UPDATE projects
+  SET
+    status = 'final',
+    published_version_id = p_version_id,
+    published_at = now(),
+    published_by = auth.uid(),
+    updated_at = now(),
+    -- The name as a slug plus part of the id, so it is unique and valid
+    slug = coalesce(
+      slug,
+      trim(both '-' from left(lower(regexp_replace(name, '[^a-zA-Z0-9]+', '-', 'g')), 40))
+        || CASE WHEN name ~ '[a-zA-Z0-9]' THEN '-' ELSE 'page-' END
+        || left(id::text, 8)
+    )
+  WHERE id = target_project_id
+  RETURNING * INTO published;
+
+  RETURN published;
+END;
+$$;
@@ -0,0 +1,55 @@
+/*
+  # Deployment history
+
+  1. New Tables
+    - `deployments`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `version_id` (uuid, references versions): the version that was pushed
+      - `platform` (text): the deployment target, e.g. `webflow`
+      - `status` (text): `pending`, `success` or `failed`
+      - `external_id` (text): the target's id for what was deployed (e.g. the
+        Webflow CMS item)
+      - `url` (text): where the deployed page can be seen, when known
+      - `log` (text[]): progress messages from the deployment
+      - `error` (text)
+      - `created_by` (uuid, references auth.users)
+      - `created_at`, `finished_at` (timestamptz)
+    Rows are written by the server while it deploys, on behalf of the user.
+
+  2. Security
+    - Enable RLS on `deployments`
+    - Users can read and write deployments of their own projects
+*/
+
+CREATE TABLE IF NOT EXISTS deployments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  version_id uuid REFERENCES versions(id) ON DELETE SET NULL,
+  platform text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')),
+  external_id text,
+  url text,
+  log text[] NOT NULL DEFAULT array[]::text[],
+  error text,
+  created_by uuid REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  finished_at timestamptz
+);
+
+ALTER TABLE deployments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage deployments of their projects"
+  ON deployments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = deployments.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_deployments_project_id ON deployments(project_id);
+CREATE INDEX IF NOT EXISTS idx_deployments_created_at ON deployments(created_at);
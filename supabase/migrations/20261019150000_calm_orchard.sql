@@ -0,0 +1,67 @@
+/*
+  # Unique slugs on publish
+
+  1. Functions
+    - `publish_version` no longer fails when the generated slug is taken,
+      e.g. by a hand-picked slug or another project whose id starts the same.
+      It tries 8, then 12, then all 32 hex digits of the id after the name.
+*/
+
+CREATE OR REPLACE FUNCTION publish_version(p_version_id uuid)
+RETURNS projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_project_id uuid;
+  base_slug text;
+  suffix_length integer;
+  candidate text;
+  published projects;
+BEGIN
+  SELECT project_id INTO target_project_id FROM versions WHERE id = p_version_id;
+  IF target_project_id IS NULL THEN
+    RAISE EXCEPTION 'Version % not found', p_version_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM projects WHERE id = target_project_id AND status = 'final') THEN
+    RAISE EXCEPTION 'This project is already published; reopen it first';
+  END IF;
+
+  -- Locks the project, and must run before the project turns final
+  PERFORM set_current_version(p_version_id);
+
+  SELECT trim(both '-' from lower(regexp_replace(name, '[^a-zA-Z0-9]+', '-', 'g')))
+  INTO base_slug
+  FROM projects
+  WHERE id = target_project_id;
+  IF base_slug = '' THEN
+    base_slug := 'page';
+  END IF;
+
+  -- The name as a slug plus part of the id, kept within the 60 characters
+  -- the format allows. Projects that already have a slug keep it.
+  FOREACH suffix_length IN ARRAY ARRAY[8, 12, 32] LOOP
+    candidate := trim(both '-' from left(base_slug, least(40, 59 - suffix_length)))
+      || '-' || left(replace(target_project_id::text, '-', ''), suffix_length);
+    BEGIN
+      UPDATE projects
+      SET
+        status = 'final',
+        published_version_id = p_version_id,
+        published_at = now(),
+        published_by = auth.uid(),
+        updated_at = now(),
+        slug = coalesce(slug, candidate)
+      WHERE id = target_project_id
+      RETURNING * INTO published;
+
+      RETURN published;
+    EXCEPTION WHEN unique_violation THEN
+      -- Taken; try a longer part of the id
+      NULL;
+    END;
+  END LOOP;
+
+  RAISE EXCEPTION 'Could not find a free URL for this project; set its slug first';
+END;
+$$;
@@ -0,0 +1,54 @@
+/*
+  # Published versions belong to their project
+
+  1. Changes
+    - `versions`: `(id, project_id)` is unique so projects can reference both
+    - `projects.published_version_id` now references `versions(id, project_id)`
+      together with the project's own id, so a project can only publish one of
+      its own versions. Deleting the version still only clears
+      `published_version_id`.
+    Projects whose published version belongs to another project are set back
+    to draft.
+
+  2. Functions
+    - `get_published_page(slug)` also requires the version to belong to the
+      project
+*/
+
+UPDATE projects
+SET published_version_id = NULL, status = 'draft'
+WHERE published_version_id IS NOT NULL
+AND NOT EXISTS (
+  SELECT 1 FROM versions
+  WHERE versions.id = projects.published_version_id
+  AND versions.project_id = projects.id
+);
+
+ALTER TABLE versions
+  DROP CONSTRAINT IF EXISTS versions_id_project_id_key,
+  ADD CONSTRAINT versions_id_project_id_key UNIQUE (id, project_id);
+
+ALTER TABLE projects
+  DROP CONSTRAINT IF EXISTS projects_published_version_id_fkey,
+  ADD CONSTRAINT projects_published_version_id_fkey
+    FOREIGN KEY (published_version_id, id) REFERENCES versions(id, project_id)
+    ON DELETE SET NULL (published_version_id);
+
+CREATE OR REPLACE FUNCTION get_published_page(p_slug text)
+RETURNS TABLE (version_id uuid, html_content text, published_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT versions.id, versions.html_content, projects.published_at
+  FROM projects
+  JOIN versions
+    ON versions.id = projects.published_version_id
+    AND versions.project_id = projects.id
+  WHERE projects.slug = p_slug
+  AND projects.status = 'final';
+$$;
+
+REVOKE ALL ON FUNCTION get_published_page(text) FROM public;
+GRANT EXECUTE ON FUNCTION get_published_page(text) TO anon, authenticated;
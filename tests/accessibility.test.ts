@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { auditAccessibility } from '../src/lib/accessibility';
+import type { ProjectSettings, WebsiteStyle } from '../src/types/database';
+
+const PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><title>Bakery</title></head>
+<body>
+  <main><h1>Fresh bread</h1></main>
+</body>
+</html>`;
+
+// The style guide as the scraper stores it on the project
+function projectSettings(button: { color: string; backgroundColor: string }): ProjectSettings {
+  const style: WebsiteStyle = {
+    colors: ['#111111', '#ffffff'],
+    fonts: ['Inter'],
+    images: [],
+    styles: {
+      layout: { maxWidth: '1200px', containerPadding: '1rem', gridGap: '1rem' },
+      buttonStyles: [{ ...button, padding: '8px 16px', borderRadius: '4px' }],
+      headerStyles: [],
+      gradients: [],
+      shadows: [],
+      borderRadius: [],
+    },
+  };
+  return { extracted_styles: style };
+}
+
+describe('auditAccessibility with the project style guide', () => {
+  const brandWarnings = (settings: ProjectSettings) =>
+    auditAccessibility(PAGE, settings.extracted_styles).filter(issue => issue.message.startsWith('Brand'));
+
+  it('warns about brand buttons with too little contrast', () => {
+    const [issue, ...rest] = brandWarnings(projectSettings({ color: '#ffffff', backgroundColor: '#ffff00' }));
+    assert.equal(rest.length, 0);
+    assert.equal(issue.rule, 'contrast');
+    assert.equal(issue.severity, 'warning');
+    assert.match(issue.message, /^Brand button 1 #ffffff on #ffff00/);
+  });
+
+  it('accepts brand buttons with enough contrast', () => {
+    assert.deepEqual(brandWarnings(projectSettings({ color: '#ffffff', backgroundColor: '#1d4ed8' })), []);
+  });
+
+  it('only checks the markup without a style guide', () => {
+    assert.deepEqual(brandWarnings({}), []);
+  });
+});
+
+describe('auditAccessibility on the page markup', () => {
+  // A valid page with `body` inside <main>
+  const page = (body: string, head = '') => `<!DOCTYPE html>
+<html lang="en">
+<head><title>Bakery</title>${head}</head>
+<body>
+  <main><h1>Fresh bread</h1>${body}</main>
+</body>
+</html>`;
+
+  const findings = (html: string) =>
+    auditAccessibility(html).map(issue => [issue.rule, issue.severity, issue.message]);
+
+  it('finds nothing on a clean page', () => {
+    assert.deepEqual(findings(PAGE), []);
+  });
+
+  it('points each issue at its tag', () => {
+    const html = page('<img src="/loaf.jpg">');
+    const [issue] = auditAccessibility(html);
+    assert.equal(html.slice(issue.start!, issue.end!), '<img src="/loaf.jpg">');
+    assert.equal(issue.line, 5);
+  });
+
+  it('flags images without alt text', () => {
+    assert.deepEqual(findings(page('<img src="/loaf.jpg"><img src="/rye.jpg" alt="rye.jpg">')), [
+      ['alt-text', 'error', '<img> has no alt attribute'],
+      ['alt-text', 'warning', 'Alt text "rye.jpg" does not describe the image'],
+    ]);
+  });
+
+  it('accepts decorative images', () => {
+    assert.deepEqual(findings(page('<img src="/divider.svg" alt=""><img src="/dots.svg" role="presentation">')), []);
+  });
+
+  it('flags skipped heading levels', () => {
+    assert.deepEqual(findings(page('<h2>Breads</h2><h4>Rye</h4>')), [
+      ['heading-order', 'warning', 'Heading level skips from h2 to h4'],
+    ]);
+  });
+
+  it('flags pages without an h1 and with more than one', () => {
+    assert.deepEqual(findings(PAGE.replace(/h1/g, 'h2')), [['heading-order', 'error', 'The page has no <h1>']]);
+    assert.deepEqual(findings(page('<h1>Also fresh</h1>')), [
+      ['heading-order', 'warning', 'The page has more than one <h1>'],
+    ]);
+  });
+
+  it('flags a missing <main>', () => {
+    const html = PAGE.replace('<main>', '<div>').replace('</main>', '</div>');
+    assert.deepEqual(findings(html), [
+      ['landmarks', 'error', 'The page has no <main> landmark'],
+      ['landmarks', 'warning', '<div> is outside any landmark'],
+    ]);
+  });
+
+  it('flags unlabelled form fields', () => {
+    const form = `<form>
+      <input type="email" placeholder="Email">
+      <label for="name">Name</label><input id="name">
+      <label>Phone <input type="tel"></label>
+      <input type="search" aria-label="Search">
+      <input type="hidden" name="token">
+      <textarea></textarea>
+      <button type="submit">Subscribe</button>
+    </form>`;
+    assert.deepEqual(findings(page(form)), [
+      ['form-labels', 'error', '<input> has no label; a placeholder is not a label'],
+      ['form-labels', 'error', '<textarea> has no label'],
+    ]);
+  });
+
+  it('flags links that do not say where they go', () => {
+    assert.deepEqual(findings(page('<a href="/menu">Click here</a> <a href="/about">Read more…</a> <a href="/menu">Our menu</a>')), [
+      ['link-text', 'warning', 'Link text "Click here" does not say where the link goes'],
+      ['link-text', 'warning', 'Link text "Read more…" does not say where the link goes'],
+    ]);
+  });
+
+  it('flags links and buttons without text', () => {
+    assert.deepEqual(findings(page('<a href="/cart"><img src="/cart.svg" alt=""></a><button></button>')), [
+      ['link-text', 'error', 'Link <a> has no text'],
+      ['link-text', 'error', 'Button <button> has no text'],
+    ]);
+  });
+
+  it('checks the contrast of text in the page', () => {
+    const styles = `<style>
+      .muted { color: #bbbbbb; }
+      .hero { background: #1d4ed8; color: #ffffff; }
+      .faint-title { color: #999999; font-size: 32px; }
+    </style>`;
+    const body = '<p class="muted">Baked daily</p><section class="hero"><p>Order now</p></section><h2 class="faint-title">Menu</h2>';
+    assert.deepEqual(findings(page(body, styles)), [
+      ['contrast', 'error', '<p.muted> text #bbbbbb on #ffffff has a contrast of 1.92:1; text needs 4.5:1'],
+      ['contrast', 'error', '<h2.faint-title> text #999999 on #ffffff has a contrast of 2.85:1; large text needs 3:1'],
+    ]);
+  });
+});
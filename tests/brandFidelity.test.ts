@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeBrandFidelity, fixBrandFidelity } from '../src/lib/brandFidelity';
+
+describe('analyzeBrandFidelity', () => {
+  it('accepts the style guide colours and flags the rest', () => {
+    const html = '<div style="color:#112233;background:#ffffff;border-color:#ff0000"></div>';
+    const report = analyzeBrandFidelity(html, { colors: ['#112233', '#ffffff'] });
+
+    assert.equal(report.checked, 3);
+    assert.equal(report.score, 67);
+    assert.deepEqual(
+      report.issues.map(issue => [issue.category, issue.property, issue.value, html.slice(issue.start, issue.end)]),
+      [['color', 'border-color', '#ff0000', '#ff0000']]
+    );
+  });
+
+  it('does not treat the default palette as brand colours', () => {
+    const style = { colors: ['#112233', '#ffffff'] };
+    for (const fallback of ['#4f46e5', '#7c3aed', '#f59e0b', '#1f2937']) {
+      const report = analyzeBrandFidelity(`<p style="color:${fallback}"></p>`, style);
+      assert.equal(report.issues.length, 1, fallback);
+    }
+  });
+
+  it('accepts stored palette roles the site backs with a colour', () => {
+    const style = {
+      colors: ['#112233'],
+      palette: {
+        primary: '#cc5500',
+        secondary: '#7c3aed',
+        accent: '#f59e0b',
+        text: '#112233',
+        background: '#f9fafb',
+        surface: '#ffffff',
+      },
+    };
+    const report = analyzeBrandFidelity('<p style="color:#cc5500;background:#f59e0b"></p>', style);
+    assert.deepEqual(report.issues.map(issue => issue.value), ['#f59e0b']);
+  });
+
+  it('holds buttons to the button styles', () => {
+    const style = {
+      colors: ['#112233', '#ffffff', '#16a34a'],
+      styles: {
+        layout: { maxWidth: '1200px', containerPadding: '24px', gridGap: '24px' },
+        buttonStyles: [{ backgroundColor: '#16a34a', color: '#ffffff', padding: '12px 24px', borderRadius: '6px' }],
+        headerStyles: [],
+        gradients: [],
+        shadows: [],
+        borderRadius: [],
+      },
+    };
+    const report = analyzeBrandFidelity('<button style="background-color:#112233;border-radius:20px">Go</button>', style);
+    assert.deepEqual(
+      report.issues.map(issue => [issue.category, issue.value, issue.suggestion]),
+      [
+        ['button', '#112233', '#16a34a'],
+        ['button', '20px', '6px'],
+      ]
+    );
+  });
+
+  it('flags font families outside the style guide', () => {
+    const report = analyzeBrandFidelity(
+      '<style>h1 { font: bold 2rem/1.2 Georgia, serif; } p { font-family: Inter, sans-serif; }</style>',
+      { fonts: ['Inter', 'Open Sans'] }
+    );
+    assert.deepEqual(report.issues.map(issue => [issue.value, issue.suggestion]), [['Georgia', 'Inter']]);
+  });
+});
+
+describe('fixBrandFidelity', () => {
+  it('snaps off-brand colours to the nearest style guide colour', () => {
+    const { html, fixed } = fixBrandFidelity('<p style="color:#ff0000">Hi</p>', { colors: ['#112233', '#ffffff'] });
+    assert.equal(fixed, 1);
+    assert.doesNotMatch(html, /#f59e0b/);
+    assert.match(html, /style="color:(#112233|#ffffff)"/);
+  });
+
+  it('leaves on-brand pages unchanged', () => {
+    const page = '<style>.hero { color: #112233; }</style><p style="background:#FFF">Hi</p>';
+    assert.deepEqual(fixBrandFidelity(page, { colors: ['#112233', '#ffffff'] }), { html: page, fixed: 0 });
+  });
+});
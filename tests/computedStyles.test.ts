@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { createStyleResolver, parseStylesheets } from '../api/_lib/computedStyles';
+
+describe('computed styles', () => {
+  const resolve = (css: string, html: string, property: string) => {
+    const $ = cheerio.load(html);
+    const styles = createStyleResolver($, parseStylesheets([{ css, url: 'https://example.com/' }]));
+    return styles.get($('#target').get(0)!, property);
+  };
+
+  it('lets a later shorthand override an earlier longhand', () => {
+    const css = '.a { background-color: red; } .b { background: blue; }';
+    assert.equal(resolve(css, '<div id="target" class="a b"></div>', 'background-color'), 'blue');
+  });
+
+  it('lets a later longhand override part of an earlier shorthand', () => {
+    const css = '.a { padding: 1px 2px; } .b { padding-left: 9px; }';
+    const html = '<div id="target" class="a b"></div>';
+    assert.equal(resolve(css, html, 'padding-top'), '1px');
+    assert.equal(resolve(css, html, 'padding-left'), '9px');
+  });
+
+  it('ranks expanded longhands by specificity', () => {
+    const css = '#target { font-family: Georgia; } .a { font: 16px Inter; }';
+    assert.equal(resolve(css, '<p id="target" class="a"></p>', 'font-family'), 'Georgia');
+  });
+
+  it('resets longhands a shorthand leaves out', () => {
+    const css = '.a { background-color: red; } .b { background: url(wheat.png); }';
+    assert.equal(resolve(css, '<div id="target" class="a b"></div>', 'background-color'), 'transparent');
+  });
+
+  it('expands inline shorthands', () => {
+    const css = '.a { background-color: red; }';
+    const html = '<div id="target" class="a" style="background: green"></div>';
+    assert.equal(resolve(css, html, 'background-color'), 'green');
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildStructuredContent, parseMarkdown, parsePlainText } from '../src/lib/content';
+import { detectContentFormat, importContentFile } from '../src/lib/contentImport';
+
+describe('parseMarkdown', () => {
+  it('reads headings, paragraphs, bullets and buttons', () => {
+    const markdown = `# Acme **Bakery**
+
+Fresh bread, baked
+every morning.
+
+## Why Acme
+- Sourdough from a [100-year-old](https://example.com) starter
+* Delivered \`before 8am\`
+1. Organic flour
+
+[Order now](https://acme.com/order)
+
+CTA: Visit the shop`;
+
+    assert.deepEqual(parseMarkdown(markdown), [
+      { type: 'heading', level: 1, text: 'Acme Bakery' },
+      { type: 'paragraph', text: 'Fresh bread, baked every morning.' },
+      { type: 'heading', level: 2, text: 'Why Acme' },
+      { type: 'bullet', text: 'Sourdough from a 100-year-old starter' },
+      { type: 'bullet', text: 'Delivered before 8am' },
+      { type: 'bullet', text: 'Organic flour' },
+      { type: 'cta', text: 'Order now' },
+      { type: 'cta', text: 'Visit the shop' },
+    ]);
+  });
+
+  it('reads setext headings and skips code and thematic breaks', () => {
+    const markdown = 'Acme Bakery\n===========\n\nOur menu\n--------\n\n```js\nconsole.log("hi")\n```\n\n***\n\n> Best bread in town';
+    assert.deepEqual(parseMarkdown(markdown), [
+      { type: 'heading', level: 1, text: 'Acme Bakery' },
+      { type: 'heading', level: 2, text: 'Our menu' },
+      { type: 'paragraph', text: 'Best bread in town' },
+    ]);
+  });
+
+  it('joins indented lines onto the list item above', () => {
+    assert.deepEqual(parseMarkdown('- Sourdough from a\n  hundred-year-old starter\r\n- Rye'), [
+      { type: 'bullet', text: 'Sourdough from a hundred-year-old starter' },
+      { type: 'bullet', text: 'Rye' },
+    ]);
+  });
+});
+
+describe('parsePlainText', () => {
+  it('treats short lines standing alone as subheads', () => {
+    const text = 'Acme Bakery\n\nFresh bread, baked every morning.\n\nWhy Acme\n\nWe bake it all by hand.';
+    assert.deepEqual(parsePlainText(text), [
+      { type: 'heading', level: 2, text: 'Acme Bakery' },
+      { type: 'paragraph', text: 'Fresh bread, baked every morning.' },
+      { type: 'heading', level: 2, text: 'Why Acme' },
+      { type: 'paragraph', text: 'We bake it all by hand.' },
+    ]);
+  });
+
+  it('reads lists introduced by a label, wrapped items and labelled buttons', () => {
+    const text = 'We bake every day.\nFeatures:\n- Sourdough from a\n  hundred-year-old starter\n• Free delivery\nButton: Order now';
+    assert.deepEqual(parsePlainText(text), [
+      { type: 'paragraph', text: 'We bake every day.' },
+      { type: 'heading', level: 2, text: 'Features' },
+      { type: 'bullet', text: 'Sourdough from a hundred-year-old starter' },
+      { type: 'bullet', text: 'Free delivery' },
+      { type: 'cta', text: 'Order now' },
+    ]);
+  });
+
+  it('keeps sentences as paragraphs and button labels out of headings', () => {
+    assert.deepEqual(parsePlainText('Baked daily.\n\nGet started\n\nA line\nthat wraps'), [
+      { type: 'paragraph', text: 'Baked daily.' },
+      { type: 'paragraph', text: 'Get started' },
+      { type: 'paragraph', text: 'A line that wraps' },
+    ]);
+  });
+});
+
+describe('buildStructuredContent', () => {
+  it('makes the first heading the headline and later ones sections', () => {
+    const content = buildStructuredContent(
+      [
+        { type: 'heading', level: 1, text: 'Acme Bakery' },
+        { type: 'paragraph', text: 'Fresh bread every morning.' },
+        { type: 'paragraph', text: 'Family run since 1921.' },
+        { type: 'paragraph', text: 'Order online' },
+        { type: 'heading', level: 2, text: 'Why Acme' },
+        { type: 'paragraph', text: 'We bake by hand.' },
+        { type: 'bullet', text: 'Sourdough' },
+        { type: 'cta', text: 'Order online' },
+      ],
+      { name: 'acme.md', format: 'markdown' }
+    );
+    assert.deepEqual(content, {
+      headline: 'Acme Bakery',
+      subheadline: 'Fresh bread every morning.',
+      intro: ['Family run since 1921.'],
+      sections: [{ heading: 'Why Acme', paragraphs: ['We bake by hand.'], bullets: ['Sourdough'] }],
+      ctas: ['Order online'],
+      source: { name: 'acme.md', format: 'markdown' },
+    });
+  });
+
+  it('opens with a short paragraph when there is no heading', () => {
+    const content = buildStructuredContent([
+      { type: 'paragraph', text: 'Acme Bakery' },
+      { type: 'bullet', text: 'Sourdough' },
+      { type: 'bullet', text: 'Rye' },
+    ]);
+    assert.equal(content.headline, 'Acme Bakery');
+    assert.deepEqual(content.sections, [{ heading: '', paragraphs: [], bullets: ['Sourdough', 'Rye'] }]);
+  });
+
+  it('puts a long first paragraph in the intro', () => {
+    const long = 'Fresh bread '.repeat(20).trim();
+    const content = buildStructuredContent([
+      { type: 'heading', level: 1, text: 'Acme' },
+      { type: 'paragraph', text: long },
+    ]);
+    assert.equal(content.subheadline, undefined);
+    assert.deepEqual(content.intro, [long]);
+  });
+});
+
+describe('detectContentFormat', () => {
+  const cases: [string, string, string | null][] = [
+    ['notes.md', '', 'markdown'],
+    ['notes.MARKDOWN', '', 'markdown'],
+    ['notes.txt', 'application/octet-stream', 'text'],
+    ['brief.docx', '', 'docx'],
+    ['brief.pdf', '', 'pdf'],
+    ['upload', 'text/markdown', 'markdown'],
+    ['upload', 'text/plain', 'text'],
+    ['upload', 'application/pdf', 'pdf'],
+    ['upload', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'docx'],
+    ['brief.doc', 'application/msword', null],
+    ['photo.png', 'image/png', null],
+  ];
+
+  for (const [name, type, expected] of cases) {
+    it(`reads ${name} (${type || 'no type'}) as ${expected}`, () => {
+      assert.equal(detectContentFormat(new File([''], name, { type })), expected);
+    });
+  }
+});
+
+describe('importContentFile', () => {
+  it('reads a Markdown file into structured content', async () => {
+    const content = await importContentFile(new File(['# Acme\n\nFresh bread.\n\n## Menu\n- Rye'], 'acme.md'));
+    assert.equal(content.headline, 'Acme');
+    assert.deepEqual(content.source, { name: 'acme.md', format: 'markdown' });
+    assert.deepEqual(content.sections, [{ heading: 'Menu', paragraphs: [], bullets: ['Rye'] }]);
+  });
+
+  it('rejects unsupported and empty files', async () => {
+    await assert.rejects(importContentFile(new File(['x'], 'photo.png', { type: 'image/png' })), /Upload a Markdown/);
+    await assert.rejects(importContentFile(new File(['\n\n'], 'empty.txt')), /No text found in empty.txt/);
+  });
+});
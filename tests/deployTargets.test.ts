@@ -0,0 +1,121 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getDeployTarget } from '../src/api/deployTargets';
+import type { Project, Version } from '../src/types/database';
+
+const project = { id: 'a1b2c3d4-0000-4000-8000-000000000001', name: 'Bakery' } as Project;
+const version = { id: 'v1', version_number: 3, html_content: '<html>bakery</html>' } as Version;
+
+const deploy = (settings: Record<string, unknown>) =>
+  getDeployTarget('custom').deploy({ project, version, settings, log: () => {} });
+
+describe('folder deployments', () => {
+  let root: string;
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), 'deploy-'));
+    process.env.DEPLOY_FILESYSTEM_ROOT = root;
+    process.env.DEPLOY_FILESYSTEM_BASE_URL = 'https://pages.example.com/';
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("writes into the project's own subfolder", async () => {
+    const result = await deploy({ target: 'filesystem', directory: 'landing' });
+    assert.equal(await readFile(join(root, project.id, 'landing', 'index.html'), 'utf8'), '<html>bakery</html>');
+    assert.equal(result.url, `https://pages.example.com/${project.id}/landing/`);
+  });
+
+  it("refuses folders outside the project's subfolder", async () => {
+    for (const directory of ['../other-project', `../${project.id}-evil`, '/etc']) {
+      await assert.rejects(deploy({ target: 'filesystem', directory }), /inside the project's folder/, directory);
+    }
+  });
+});
+
+describe('bucket deployments', () => {
+  let server: Server;
+  const uploads: { path?: string; body: string }[] = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        uploads.push({ path: req.url, body });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.DEPLOY_S3_ENDPOINT = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.DEPLOY_S3_ACCESS_KEY_ID = 'test-key';
+    process.env.DEPLOY_S3_SECRET_ACCESS_KEY = 'test-secret';
+    process.env.DEPLOY_S3_ALLOWED_BUCKETS = 'landing-pages, previews';
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('uploads to allowed buckets', async () => {
+    const result = await deploy({ target: 's3', bucket: 'previews', prefix: 'bakery' });
+    assert.equal(result.externalId, 'previews/bakery/index.html');
+    assert.deepEqual(uploads, [{ path: '/previews/bakery/index.html', body: '<html>bakery</html>' }]);
+  });
+
+  it('refuses buckets that are not allowed', async () => {
+    uploads.length = 0;
+    await assert.rejects(deploy({ target: 's3', bucket: 'backups' }), /bucket "backups" is not allowed/);
+    assert.equal(uploads.length, 0);
+  });
+});
+
+describe('build hook deployments', () => {
+  let server: Server;
+  let hookUrl: string;
+  const calls: string[] = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      calls.push(req.url || '');
+      req.resume();
+      if (req.url === '/redirect') {
+        res.writeHead(302, { Location: 'http://169.254.169.254/' });
+      }
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    hookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.DEPLOY_HOOK_ALLOW_HTTP = 'true';
+    process.env.DEPLOY_HOOK_ALLOWED_HOSTS = 'api.netlify.com,127.0.0.1';
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('calls hooks on allowed hosts', async () => {
+    await deploy({ target: 'hook', url: `${hookUrl}/build` });
+    assert.deepEqual(calls, ['/build']);
+  });
+
+  it('refuses hosts that are not allowed', async () => {
+    await assert.rejects(
+      deploy({ target: 'hook', url: 'http://localhost:9/build' }),
+      /Build hooks on localhost are not allowed/
+    );
+  });
+
+  it('does not follow redirects', async () => {
+    calls.length = 0;
+    await assert.rejects(deploy({ target: 'hook', url: `${hookUrl}/redirect` }));
+    assert.deepEqual(calls, ['/redirect']);
+  });
+});
@@ -0,0 +1,41 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { extractAssets, type ExtractedAssets } from '../api/_lib/extract';
+import { createFixtureFetcher } from '../api/_lib/fetchers';
+
+const FIXTURES_DIR = fileURLToPath(new URL('./fixtures/sites', import.meta.url));
+
+describe('extractAssets on a saved site', () => {
+  let assets: ExtractedAssets;
+
+  before(async () => {
+    const fetcher = createFixtureFetcher(FIXTURES_DIR);
+    const url = 'https://acme.com/';
+    assets = await extractAssets(await fetcher.fetchPage(url), url, '', fetcher.fetchText);
+  });
+
+  it('reads buttons through the cascade of linked and inline styles', () => {
+    assert.deepEqual(assets.styles.buttonStyles, [
+      { backgroundColor: '#1d4ed8', color: '#ffffff', padding: '12px 24px 12px 40px', borderRadius: '6px' },
+      { backgroundColor: '#16a34a', color: '#ffffff', padding: '12px 24px', borderRadius: '6px' },
+    ]);
+  });
+
+  it('reads headings set with the font shorthand', () => {
+    assert.deepEqual(
+      assets.styles.headerStyles.map(style => [style.fontFamily, style.fontSize, style.fontWeight]),
+      [
+        ['Inter, sans-serif', '48px', 'bold'],
+        ['Georgia, serif', '1rem', '400'],
+      ]
+    );
+  });
+
+  it('reads the layout and page colors', () => {
+    assert.equal(assets.styles.layout.maxWidth, '1100px');
+    assert.equal(assets.styles.layout.containerPadding, '32px');
+    assert.equal(assets.palette?.background, '#fffbeb');
+    assert.equal(assets.logo, 'https://acme.com/images/logo.svg');
+  });
+});
@@ -0,0 +1,83 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, mkdir, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { createDirectFetcher, createFixtureFetcher } from '../api/_lib/fetchers';
+
+describe('direct fetcher', () => {
+  let server: Server;
+  let requests = 0;
+
+  before(async () => {
+    server = createServer((_req, res) => {
+      requests++;
+      res.end('<html></html>');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('refuses loopback, private and link-local addresses', async () => {
+    const port = (server.address() as AddressInfo).port;
+    const fetcher = createDirectFetcher();
+    for (const url of [
+      `http://127.0.0.1:${port}/`,
+      `http://localhost:${port}/`,
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://10.0.0.1/',
+      'http://192.168.1.1/',
+      'http://169.254.169.254/latest/meta-data/',
+    ]) {
+      await assert.rejects(fetcher.fetchPage(url), /not a public address/, url);
+    }
+    assert.equal(requests, 0);
+  });
+
+  it('refuses other protocols', async () => {
+    await assert.rejects(createDirectFetcher().fetchText('file:///etc/passwd'), /only http and https/);
+  });
+});
+
+describe('fixture fetcher', () => {
+  let dir: string;
+  let outside: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fixtures-'));
+    outside = await mkdtemp(join(tmpdir(), 'outside-'));
+    await mkdir(join(dir, 'acme.com'));
+    await writeFile(join(dir, 'acme.com', 'index.html'), '<html>acme</html>');
+    await writeFile(join(outside, 'secret.txt'), 'secret');
+    await symlink(join(outside, 'secret.txt'), join(dir, 'acme.com', 'link.css'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  it('reads pages and file URLs inside the directory', async () => {
+    const fetcher = createFixtureFetcher(dir);
+    assert.equal(await fetcher.fetchPage('https://acme.com/'), '<html>acme</html>');
+    assert.equal(await fetcher.fetchPage(pathToFileURL(join(dir, 'acme.com', 'index.html')).href), '<html>acme</html>');
+  });
+
+  it('refuses paths outside the directory', async () => {
+    const fetcher = createFixtureFetcher(dir);
+    for (const url of [
+      pathToFileURL(join(outside, 'secret.txt')).href,
+      'https://acme.com/%2e%2e%2f%2e%2e%2fetc%2fpasswd',
+      'https://acme.com/link.css',
+    ]) {
+      await assert.rejects(fetcher.fetchText(url), /escapes/, url);
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { generateLandingPage } from '../src/api/generate';
+
+// A local stand-in for the OpenAI chat completions API
+interface StubRequest {
+  path: string;
+  authorization?: string;
+  body: { model: string; messages: { role: string; content: string }[] };
+}
+
+const PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Stub</title>
+</head>
+<body><main><h1>From the stub</h1></main></body>
+</html>`;
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+describe('generateLandingPage against a stub OpenAI server', () => {
+  const requests: StubRequest[] = [];
+  let status = 200;
+  let server: Server;
+
+  before(async () => {
+    server = createServer(async (req, res) => {
+      const body = JSON.parse(await readBody(req));
+      requests.push({ path: req.url || '', authorization: req.headers.authorization, body });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(
+        status === 200
+          ? {
+              id: 'chatcmpl-stub',
+              object: 'chat.completion',
+              created: 0,
+              model: body.model,
+              choices: [{ index: 0, message: { role: 'assistant', content: PAGE }, finish_reason: 'stop' }],
+            }
+          : { error: { message: 'bad request', type: 'invalid_request_error' } }
+      ));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.OPENAI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    process.env.LLM_BASE_URL = process.env.OPENAI_BASE_URL;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('sends the prompt server-side and returns the page', async () => {
+    const result = await generateLandingPage('A bakery in Lisbon', { colors: ['#aa3300'] } as never, {
+      provider: 'openai',
+      model: 'stub-model',
+    });
+
+    assert.equal(result.error, undefined);
+    assert.equal(result.html, PAGE);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].path, '/v1/chat/completions');
+    assert.equal(requests[0].authorization, 'Bearer test-key');
+    assert.equal(requests[0].body.model, 'stub-model');
+    assert.match(requests[0].body.messages[0].content, /A bakery in Lisbon/);
+    assert.match(requests[0].body.messages[0].content, /#aa3300/);
+  });
+
+  // Through the OpenAI-compatible provider, which has no rate limit interval
+  // to wait out after the first test
+  it('falls back to the template with an error when the API rejects the request', async () => {
+    status = 400;
+    const result = await generateLandingPage('A bakery in Lisbon', undefined, {
+      provider: 'openai-compatible',
+      model: 'stub-model',
+    });
+
+    assert.equal(requests.length, 2);
+    assert.ok(result.error);
+    assert.match(result.html, /<!DOCTYPE html>/i);
+    assert.doesNotMatch(result.html, /From the stub/);
+  });
+});
@@ -0,0 +1,106 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import generateRouter from '../src/api/generate';
+import { createMockProvider, registerProvider } from '../src/api/llm';
+
+const MODEL = { provider: 'mock', model: 'mock-landing-page' };
+
+describe('/api/generate routes', () => {
+  // Stands in for Supabase Auth, which requireAuth asks about the token
+  let auth: Server;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    auth = createServer((req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url?.startsWith('/auth/v1/user') && req.headers.authorization === 'Bearer valid-token') {
+        res.end(JSON.stringify({ id: 'user-1', aud: 'authenticated', role: 'authenticated', app_metadata: {}, user_metadata: {} }));
+      } else {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ message: 'invalid JWT' }));
+      }
+    });
+    await new Promise<void>(resolve => auth.listen(0, '127.0.0.1', resolve));
+    process.env.VITE_SUPABASE_URL = `http://127.0.0.1:${(auth.address() as AddressInfo).port}`;
+    process.env.VITE_SUPABASE_ANON_KEY = 'anon-key';
+
+    // Only the mock is offered, whatever the environment configures
+    for (const name of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'LLM_BASE_URL']) delete process.env[name];
+    registerProvider(createMockProvider());
+    const app = express();
+    app.use(express.json());
+    app.use('/api/generate', generateRouter);
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/generate`;
+  });
+
+  after(() => {
+    server.close();
+    auth.close();
+  });
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer valid-token' },
+      body: JSON.stringify(body),
+    });
+
+  it('generates with a valid style guide', async () => {
+    const response = await post('/', { prompt: 'A bakery', style: { colors: ['#aa3300'], fonts: ['Inter'] }, model: MODEL });
+    assert.equal(response.status, 200);
+    assert.match((await response.json()).html, /Mock Landing Page/);
+  });
+
+  it('rejects malformed style guides with a 400', async () => {
+    for (const style of [
+      { fonts: 'x' },
+      { colors: {} },
+      { styles: { buttonStyles: 'x' } },
+      { fontFaces: [{ family: 'Inter', src: 'x' }] },
+      'style',
+    ]) {
+      for (const path of ['/', '/stream', '/fragment']) {
+        const response = await post(path, { prompt: 'A bakery', fragment: '<section></section>', instruction: 'Shorter', style, model: MODEL });
+        assert.equal(response.status, 400, `${path} ${JSON.stringify(style)}`);
+        assert.deepEqual(await response.json(), { error: 'style must be a style guide' });
+      }
+    }
+  });
+
+  it('refines with the earlier turns of the conversation', async () => {
+    const response = await post('/refine', {
+      html: '<html></html>',
+      history: [{ instruction: 'Make it blue', base_version_id: 'v1' }],
+      instruction: 'Shorter',
+      model: MODEL,
+    });
+    assert.equal(response.status, 200);
+    assert.match((await response.json()).html, /Mock Landing Page/);
+  });
+
+  it('rejects malformed refinement requests with a 400', async () => {
+    const valid = { html: '<html></html>', history: [], instruction: 'Shorter', model: MODEL };
+    for (const body of [
+      { ...valid, html: 42 },
+      { ...valid, history: 'Make it blue' },
+      { ...valid, history: [{ instruction: 'Make it blue' }] },
+      { ...valid, history: [null] },
+      { ...valid, style: { fonts: 'x' } },
+    ]) {
+      const response = await post('/refine', body);
+      assert.equal(response.status, 400, JSON.stringify(body));
+    }
+  });
+
+  it('rejects unknown models with a 400', async () => {
+    const response = await post('/', { prompt: 'A bakery', model: { provider: 'mock', model: 'gpt-4o' } });
+    assert.equal(response.status, 400);
+  });
+});
@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { getProvider } from '../src/api/llm';
+
+describe('Anthropic provider streaming', () => {
+  // Lines the stub sends as the body of the next streamed response
+  let events: string[] = [];
+  let server: Server;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.end(events.map(line => `${line}\n\n`).join(''));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const collect = async () => {
+    let text = '';
+    for await (const chunk of getProvider('anthropic').stream({
+      model: 'claude-test',
+      messages: [{ role: 'user', content: 'Hi' }],
+      maxTokens: 100,
+    })) {
+      text += chunk;
+    }
+    return text;
+  };
+
+  const delta = (text: string) =>
+    `data: ${JSON.stringify({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } })}`;
+
+  it('skips malformed events instead of failing the stream', async () => {
+    events = [
+      'event: content_block_delta',
+      delta('<html>'),
+      'data: {not json',
+      delta('</html>'),
+      `data: ${JSON.stringify({ type: 'message_stop' })}`,
+    ];
+    assert.equal(await collect(), '<html></html>');
+  });
+
+  it('fails on error events', async () => {
+    events = [
+      delta('<html>'),
+      `data: ${JSON.stringify({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })}`,
+    ];
+    await assert.rejects(collect, /overloaded_error - Overloaded/);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { createFixtureFetcher } from '../api/_lib/fetchers';
+import { extractLogoColors } from '../api/_lib/logoColors';
+import { colorDistance } from '../src/lib/palette';
+
+const FIXTURES_DIR = fileURLToPath(new URL('./fixtures/sites', import.meta.url));
+
+describe('extractLogoColors', () => {
+  const fetcher = createFixtureFetcher(FIXTURES_DIR);
+
+  it('reads the dominant colours of a saved logo, most prominent first', async () => {
+    const colors = await extractLogoColors('https://acme.com/images/logo.svg', fetcher.fetchBytes);
+
+    assert.equal(colors.length, 2);
+    assert.ok(colorDistance(colors[0], '#c2410c') < 5, colors[0]);
+    assert.ok(colorDistance(colors[1], '#0f766e') < 5, colors[1]);
+  });
+
+  it('returns no colours for logos that cannot be read', async () => {
+    assert.deepEqual(await extractLogoColors('https://acme.com/images/missing.png', fetcher.fetchBytes), []);
+    assert.deepEqual(await extractLogoColors('https://acme.com/css/main.css', fetcher.fetchBytes), []);
+  });
+});
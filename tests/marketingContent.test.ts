@@ -0,0 +1,199 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  describeContent,
+  emptyMarketingContent,
+  normalizeMarketingContent,
+  parseMarketingContent,
+  toMarketingContent,
+} from '../src/lib/content';
+import type { StructuredContent } from '../src/types/content';
+
+const IMPORTED: StructuredContent = {
+  headline: 'Acme Bakery',
+  subheadline: 'Fresh bread every morning',
+  intro: ['Family run since 1921.'],
+  sections: [
+    { heading: 'Why Acme', paragraphs: [], bullets: ['Sourdough: from a 100-year-old starter', 'Free delivery'] },
+    {
+      heading: 'What our customers say',
+      paragraphs: ['"Best rye in town" — Jane Doe, Owner at Cafe Blue', '"Always fresh"', '— Sam Lee'],
+      bullets: [],
+    },
+    { heading: 'Pricing', paragraphs: [], bullets: ['Starter: $9 per month', 'Family - $19/month', 'Office: Free'] },
+    { heading: 'FAQ', paragraphs: ['Do you deliver? Every day before 8am.', 'Is it organic?', 'Yes, all of it.'], bullets: [] },
+    { heading: 'Our story', paragraphs: ['It started with one oven.'], bullets: [] },
+  ],
+  ctas: ['Order now', 'Visit the shop'],
+  source: { name: 'acme.md', format: 'markdown' },
+};
+
+describe('toMarketingContent', () => {
+  const content = toMarketingContent(IMPORTED);
+
+  it('fills the hero and closing call to action', () => {
+    assert.deepEqual(content.hero, {
+      headline: 'Acme Bakery',
+      subheadline: 'Fresh bread every morning',
+      cta: { label: 'Order now', url: '' },
+    });
+    assert.deepEqual(content.cta.button, { label: 'Visit the shop', url: '' });
+    assert.deepEqual(content.source, IMPORTED.source);
+  });
+
+  it('splits feature titles from their descriptions', () => {
+    assert.deepEqual(content.features, {
+      heading: 'Why Acme',
+      items: [
+        { title: 'Sourdough', description: 'from a 100-year-old starter' },
+        { title: 'Free delivery', description: '' },
+      ],
+    });
+  });
+
+  it('reads quotes and their attribution', () => {
+    assert.deepEqual(content.testimonials, [
+      { quote: 'Best rye in town', author: 'Jane Doe', role: 'Owner at Cafe Blue' },
+      { quote: 'Always fresh', author: 'Sam Lee', role: '' },
+    ]);
+  });
+
+  it('reads prices and billing periods', () => {
+    assert.deepEqual(
+      content.pricing.map(tier => [tier.name, tier.price, tier.period]),
+      [
+        ['Starter', '$9', 'per month'],
+        ['Family', '$19', 'per month'],
+        ['Office', 'Free', ''],
+      ]
+    );
+  });
+
+  it('pairs questions with the answers that follow them', () => {
+    assert.deepEqual(content.faq, [
+      { question: 'Do you deliver?', answer: 'Every day before 8am.' },
+      { question: 'Is it organic?', answer: 'Yes, all of it.' },
+    ]);
+  });
+
+  it('keeps the intro and unmatched sections as extra sections', () => {
+    assert.deepEqual(content.extraSections, [
+      { heading: '', paragraphs: ['Family run since 1921.'], bullets: [] },
+      { heading: 'Our story', paragraphs: ['It started with one oven.'], bullets: [] },
+    ]);
+  });
+
+  it('uses the first intro paragraph as the subheadline when there is none', () => {
+    const fallback = toMarketingContent({ headline: 'Acme', intro: ['Fresh bread.', 'Since 1921.'], sections: [], ctas: ['Order'] });
+    assert.equal(fallback.hero.subheadline, 'Fresh bread.');
+    assert.deepEqual(fallback.extraSections, [{ heading: '', paragraphs: ['Since 1921.'], bullets: [] }]);
+    assert.equal(fallback.cta.button.label, 'Order');
+  });
+});
+
+describe('normalizeMarketingContent', () => {
+  it('rejects values that are not marketing content', () => {
+    for (const value of [null, 'Acme', [], {}, { hero: 'Acme' }]) {
+      assert.equal(normalizeMarketingContent(value), null, JSON.stringify(value));
+    }
+  });
+
+  it('trims text and drops empty entries and unusable links', () => {
+    const content = normalizeMarketingContent({
+      hero: { headline: '  Acme  ', cta: { label: 'Order', url: 'javascript:alert(1)' } },
+      features: { heading: 'Why', items: [{ title: 'Fresh' }, { title: ' ', description: '' }, 'Fast'] },
+      testimonials: [{ quote: 'Great', author: 7 }, { quote: '' }],
+      pricing: [{ name: 'Starter', price: '$9', highlighted: 'yes', features: ['Bread', 3, ''] }, {}],
+      faq: [{ question: 'Open Sundays?', answer: 'Yes' }, { answer: 'Orphan' }],
+      cta: { button: { label: 'Visit', url: 'https://acme.com/shop' } },
+      footerLinks: [{ label: 'Email', url: 'mailto:hi@acme.com' }, { url: '/about' }],
+      extraSections: [{ heading: '', paragraphs: [], bullets: [] }, { heading: 'Story', paragraphs: ['One oven'] }],
+      source: { name: 'acme.md', format: 'rtf' },
+    });
+
+    assert.deepEqual(content, {
+      hero: { headline: 'Acme', subheadline: '', cta: { label: 'Order', url: '' } },
+      features: { heading: 'Why', items: [{ title: 'Fresh', description: '' }] },
+      testimonials: [{ quote: 'Great', author: '', role: '' }],
+      pricing: [{
+        name: 'Starter',
+        price: '$9',
+        period: '',
+        features: ['Bread'],
+        cta: { label: '', url: '' },
+        highlighted: false,
+      }],
+      faq: [{ question: 'Open Sundays?', answer: 'Yes' }],
+      cta: { heading: '', text: '', button: { label: 'Visit', url: 'https://acme.com/shop' } },
+      footerLinks: [{ label: 'Email', url: 'mailto:hi@acme.com' }],
+      extraSections: [{ heading: 'Story', paragraphs: ['One oven'], bullets: [] }],
+      source: undefined,
+    });
+  });
+
+  it('keeps content that is already clean', () => {
+    const content = toMarketingContent(IMPORTED);
+    assert.deepEqual(normalizeMarketingContent(JSON.parse(JSON.stringify(content))), content);
+  });
+});
+
+describe('describeContent', () => {
+  it('leaves out empty blocks', () => {
+    assert.equal(describeContent(emptyMarketingContent()), '');
+    const content = emptyMarketingContent();
+    content.hero.headline = 'Acme';
+    assert.equal(describeContent(content), 'Hero:\n  Headline: Acme');
+  });
+
+  it('describes every block in a fixed order', () => {
+    const content = toMarketingContent(IMPORTED);
+    content.hero.cta.url = 'https://acme.com/order';
+    content.pricing[1].highlighted = true;
+    content.pricing[1].features = ['Two loaves a day', 'Free delivery'];
+    content.cta.heading = 'Hungry?';
+    content.footerLinks = [{ label: 'Contact', url: 'mailto:hi@acme.com' }];
+
+    assert.equal(describeContent(content), `Hero:
+  Headline: Acme Bakery
+  Subheadline: Fresh bread every morning
+  Button: "Order now" linking to https://acme.com/order
+
+Features (section heading: Why Acme):
+  1. Sourdough: from a 100-year-old starter
+  2. Free delivery
+
+Testimonials:
+  1. "Best rye in town" - Jane Doe, Owner at Cafe Blue
+  2. "Always fresh" - Sam Lee
+
+Pricing tiers:
+  1. Starter: $9 per month
+  2. Family: $19 per month (highlighted)
+     Includes: Two loaves a day; Free delivery
+  3. Office: Free
+
+FAQ:
+  Q: Do you deliver?
+  A: Every day before 8am.
+  Q: Is it organic?
+  A: Yes, all of it.
+
+Closing call to action:
+  Heading: Hungry?
+  Button: "Visit the shop"
+
+Footer links:
+  - "Contact" linking to mailto:hi@acme.com
+
+Other sections:
+  (no heading)
+    Family run since 1921.
+  Our story
+    It started with one oven.`);
+  });
+
+  it('gives the same text for the same content', () => {
+    const stored = JSON.stringify(toMarketingContent(IMPORTED));
+    assert.equal(describeContent(parseMarketingContent(stored)!), describeContent(toMarketingContent(IMPORTED)));
+  });
+});
@@ -0,0 +1,51 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateLandingPage, streamLandingPage } from '../src/api/generate';
+import { createMockProvider, registerProvider } from '../src/api/llm';
+
+describe('mock provider', () => {
+  const provider = createMockProvider();
+  const request = (model: string, content: string) => ({
+    model,
+    messages: [{ role: 'user' as const, content }],
+    maxTokens: 100,
+  });
+
+  it('escapes the model name in the page', async () => {
+    const html = await provider.complete(request('"><script>alert(1)</script>', 'A bakery'));
+    assert.ok(!html.includes('<script>'));
+    assert.match(html, /data-mock-model="&quot;&gt;&lt;script&gt;alert\(1\)&lt;\/script&gt;"/);
+  });
+});
+
+describe('generation with the mock provider', () => {
+  const selection = { provider: 'mock' as const, model: 'mock-landing-page' };
+
+  before(() => {
+    registerProvider(createMockProvider());
+  });
+
+  it('returns the same page for the same prompt', async () => {
+    const first = await generateLandingPage('A bakery in Lisbon', undefined, selection);
+    const second = await generateLandingPage('A bakery in Lisbon', undefined, selection);
+    assert.equal(first.error, undefined);
+    assert.match(first.html, /<h1>Mock Landing Page<\/h1>/);
+    assert.deepEqual(first.issues, []);
+    assert.equal(second.html, first.html);
+  });
+
+  it('returns a different page for a different prompt', async () => {
+    const bakery = await generateLandingPage('A bakery in Lisbon', undefined, selection);
+    const florist = await generateLandingPage('A florist in Porto', undefined, selection);
+    assert.notEqual(florist.html, bakery.html);
+  });
+
+  it('streams the page it generates', async () => {
+    let streamed = '';
+    for await (const chunk of streamLandingPage('A bakery in Lisbon', undefined, selection)) {
+      streamed += chunk;
+    }
+    const generated = await generateLandingPage('A bakery in Lisbon', undefined, selection);
+    assert.equal(streamed, generated.html);
+  });
+});
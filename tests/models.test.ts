@@ -0,0 +1,23 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider, isModelAvailable, registerProvider } from '../src/api/llm';
+
+describe('isModelAvailable', () => {
+  before(() => {
+    // Only the mock is offered, whatever the environment configures
+    for (const name of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'LLM_BASE_URL']) delete process.env[name];
+    registerProvider(createMockProvider());
+  });
+
+  it('accepts a model a configured provider lists', async () => {
+    assert.equal(await isModelAvailable({ provider: 'mock', model: 'mock-landing-page' }), true);
+  });
+
+  it('rejects models no provider lists', async () => {
+    assert.equal(await isModelAvailable({ provider: 'mock', model: 'gpt-4o' }), false);
+  });
+
+  it('rejects providers that are not configured', async () => {
+    assert.equal(await isModelAvailable({ provider: 'anthropic', model: 'mock-landing-page' }), false);
+  });
+});
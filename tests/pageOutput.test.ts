@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkDocument, extractDocument, isTruncated, joinContinuation } from '../src/api/pageOutput';
+
+const PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Acme</title>
+</head>
+<body><main><h1>Acme</h1></main></body>
+</html>`;
+
+describe('extractDocument', () => {
+  const cases: [string, string, { html: string; codes: string[] } | null][] = [
+    ['a bare page', PAGE, { html: PAGE, codes: [] }],
+    ['a fenced page', '```html\n' + PAGE + '\n```', { html: PAGE, codes: ['code_fence'] }],
+    ['a fence cut off before it closes', '```html\n<html><body>Acme', { html: '<html><body>Acme', codes: ['code_fence'] }],
+    ['prose before the page', 'Here is your page:\n\n' + PAGE, { html: PAGE, codes: ['leading_text'] }],
+    ['prose after the page', PAGE + '\n\nLet me know if you need changes.', { html: PAGE, codes: ['trailing_text'] }],
+    [
+      'a fence with prose around it',
+      'Sure!\n```html\n' + PAGE + '\n```\nEnjoy.',
+      { html: PAGE, codes: ['code_fence'] },
+    ],
+    ['a page starting at <body>', 'Page: <body><h1>Hi</h1></body>', { html: '<body><h1>Hi</h1></body>', codes: ['leading_text'] }],
+    ['no HTML document', 'Sorry, I cannot help with that.', null],
+    ['a fragment without a document', '<section><h1>Hi</h1></section>', null],
+  ];
+
+  for (const [name, raw, expected] of cases) {
+    it(`handles ${name}`, () => {
+      const result = extractDocument(raw);
+      assert.deepEqual(
+        result && { html: result.html, codes: result.issues.map(issue => issue.code) },
+        expected
+      );
+    });
+  }
+});
+
+describe('isTruncated', () => {
+  const cases: [string, string, boolean][] = [
+    ['a complete page', PAGE, false],
+    ['a complete page with trailing whitespace', PAGE + '\n\n', false],
+    ['a page cut off before </html>', PAGE.slice(0, PAGE.indexOf('</html>')), true],
+    ['a page cut off inside a tag', '<html><body><foot', true],
+    ['a page cut off inside an attribute', '<html><body><a href="/pri', true],
+    ['a body without </body>', '<body><main>Hi</main>', true],
+    ['a complete body', '<body><main>Hi</main></body>', false],
+    ['a fragment', '<section>Hi</section>', false],
+  ];
+
+  for (const [name, html, expected] of cases) {
+    it(`says ${expected} for ${name}`, () => {
+      assert.equal(isTruncated(html), expected);
+    });
+  }
+});
+
+describe('joinContinuation', () => {
+  const cases: [string, string, string, string][] = [
+    ['appends text that repeats nothing', '<main><p>Hello', ' world</p></main>', '<main><p>Hello world</p></main>'],
+    [
+      'drops a repeated end of the page',
+      '<main><section id="pricing"><h2>Pricing',
+      '<section id="pricing"><h2>Pricing</h2></section>',
+      '<main><section id="pricing"><h2>Pricing</h2></section>',
+    ],
+    ['keeps short coincidental overlaps', '<p>a</p>', '</p><p>b</p>', '<p>a</p></p><p>b</p>'],
+    ['drops a cut-off tag the continuation writes again', '<main></main><footer', '<footer><p>Acme</p></footer>', '<main></main><footer><p>Acme</p></footer>'],
+    ['drops a cut-off tag before a different one', '<main></main><foo', '\n<footer></footer>', '<main></main><footer></footer>'],
+    ['drops a cut-off closing tag', '<main><p>Hi</p></ma', '</main></body>', '<main><p>Hi</p></main></body>'],
+    ['finishes a tag cut off part-way', '<main></main><foot', 'er><p>Acme</p></footer>', '<main></main><footer><p>Acme</p></footer>'],
+    ['finishes a cut-off attribute', '<a href="/pri', 'cing">Pricing</a>', '<a href="/pricing">Pricing</a>'],
+  ];
+
+  for (const [name, partial, continuation, expected] of cases) {
+    it(name, () => {
+      assert.equal(joinContinuation(partial, continuation), expected);
+    });
+  }
+});
+
+describe('checkDocument', () => {
+  const codes = (html: string) => checkDocument(html).issues.map(issue => issue.code);
+
+  it('leaves a complete page alone', () => {
+    assert.deepEqual(checkDocument(PAGE), { html: PAGE, issues: [] });
+  });
+
+  const cases: [string, string, string[], RegExp[]][] = [
+    ['a missing doctype', PAGE.replace('<!DOCTYPE html>\n', ''), ['missing_doctype'], [/^<!DOCTYPE html>\n<html lang="en">/]],
+    ['an old doctype', PAGE.replace('<!DOCTYPE html>', '<!DOCTYPE HTML PUBLIC "-//W3C//DTD HTML 4.01//EN">'), ['missing_doctype'], [/^<!DOCTYPE html>\n<html/]],
+    [
+      'a page without <html>, <head> or <body>',
+      '<!DOCTYPE html>\n<main><h1>Hi</h1></main>',
+      ['missing_html', 'missing_head', 'missing_body', 'missing_viewport', 'missing_title'],
+      [/<html lang="en">\n<head>\n<meta charset="UTF-8">\n<meta name="viewport"[^>]*>\n<\/head>\n<body>\n<main><h1>Hi<\/h1><\/main>\n<\/body>\n<\/html>$/],
+    ],
+    ['a missing viewport', PAGE.replace(/<meta name="viewport"[^>]*>\n/, ''), ['missing_viewport'], [/<meta charset="UTF-8">\n<meta name="viewport" content="width=device-width, initial-scale=1.0">/]],
+    ['an empty title', PAGE.replace('<title>Acme</title>', '<title> </title>'), ['missing_title'], []],
+  ];
+
+  for (const [name, html, expectedCodes, patterns] of cases) {
+    it(`fixes ${name}`, () => {
+      assert.deepEqual(codes(html), expectedCodes);
+      const fixed = checkDocument(html);
+      patterns.forEach(pattern => assert.match(fixed.html, pattern));
+      assert.equal(fixed.issues.every(issue => issue.fixed === (issue.code !== 'missing_title')), true);
+    });
+  }
+});
@@ -0,0 +1,171 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildPalette,
+  colorDistance,
+  getPalette,
+  inferPalette,
+  mergeLogoColors,
+  normalizeColor,
+  rankColors,
+  storedPaletteColors,
+} from '../src/lib/palette';
+
+describe('normalizeColor', () => {
+  const cases: [string, string | null][] = [
+    ['#1D4ED8', '#1d4ed8'],
+    ['  #1d4ed8  ', '#1d4ed8'],
+    ['#fff', '#ffffff'],
+    ['#abcd', '#aabbcc'],
+    ['#1d4ed8cc', '#1d4ed8'],
+    ['#1d4ed810', null],
+    ['rgb(29, 78, 216)', '#1d4ed8'],
+    ['rgb(29 78 216 / 50%)', '#1d4ed8'],
+    ['rgba(29, 78, 216, 0.05)', null],
+    ['rgb(100%, 0%, 0%)', '#ff0000'],
+    ['hsl(0, 100%, 50%)', '#ff0000'],
+    ['hsl(-120 100% 50%)', '#0000ff'],
+    ['hsla(120, 100%, 25%, 0.8)', '#008000'],
+    ['White', '#ffffff'],
+    ['transparent', null],
+    ['currentColor', null],
+    ['var(--brand)', null],
+    ['#12345', null],
+    ['rgb(1, 2)', null],
+  ];
+
+  for (const [value, expected] of cases) {
+    it(`reads ${JSON.stringify(value)} as ${expected}`, () => {
+      assert.equal(normalizeColor(value), expected);
+    });
+  }
+});
+
+describe('rankColors', () => {
+  it('counts each colour however it is written', () => {
+    assert.deepEqual(rankColors(['#1d4ed8', 'rgb(29, 78, 216)', '#FFF', 'white', 'white', 'transparent']), [
+      { hex: '#ffffff', count: 3 },
+      { hex: '#1d4ed8', count: 2 },
+    ]);
+  });
+
+  it('folds colours closer than delta E 10 into the more frequent one', () => {
+    // #1d4ed8 and #1e50da are a barely visible step apart; #16a34a is not
+    assert.ok(colorDistance('#1d4ed8', '#1e50da') < 10);
+    assert.deepEqual(rankColors(['#1e50da', '#1d4ed8', '#1d4ed8', '#16a34a']), [
+      { hex: '#1d4ed8', count: 3 },
+      { hex: '#16a34a', count: 1 },
+    ]);
+  });
+
+  it('keeps colours exactly delta E 10 or more apart', () => {
+    const ranked = rankColors(['#ff0000', '#ff0000', '#e00000']);
+    assert.ok(colorDistance('#ff0000', '#e00000') >= 10);
+    assert.deepEqual(ranked.map(color => color.hex), ['#ff0000', '#e00000']);
+  });
+
+  it('ranks preferred colours first, even unused ones', () => {
+    assert.deepEqual(rankColors(['#111111', '#111111', '#16a34a'], ['#16A34A', '#c2410c']), [
+      { hex: '#16a34a', count: 1 },
+      { hex: '#c2410c', count: 1 },
+      { hex: '#111111', count: 2 },
+    ]);
+  });
+});
+
+describe('buildPalette', () => {
+  const ranked = (...hexes: string[]) => hexes.map((hex, i) => ({ hex, count: hexes.length - i }));
+
+  it('assigns roles from usage', () => {
+    assert.deepEqual(buildPalette(ranked('#ffffff', '#111827', '#1d4ed8', '#16a34a', '#f43f5e', '#f3f4f6')), {
+      background: '#ffffff',
+      text: '#111827',
+      primary: '#1d4ed8',
+      secondary: '#16a34a',
+      accent: '#f43f5e',
+      surface: '#f3f4f6',
+    });
+  });
+
+  it('prefers what the page says a colour is for', () => {
+    const palette = buildPalette(ranked('#ffffff', '#111827', '#1d4ed8', '#16a34a', '#fffbeb'), {
+      background: '#fffbeb',
+      primary: '#16a34a',
+    });
+    assert.equal(palette.background, '#fffbeb');
+    assert.equal(palette.primary, '#16a34a');
+    assert.equal(palette.secondary, '#1d4ed8');
+  });
+
+  it('ignores a text hint too faint to read', () => {
+    const palette = buildPalette(ranked('#ffffff', '#111827'), { text: '#eeeeee' });
+    assert.equal(palette.text, '#111827');
+  });
+
+  it('falls back to the defaults for roles the site has no colour for', () => {
+    const palette = buildPalette(ranked('#ffffff', '#111827', '#1d4ed8'));
+    assert.equal(palette.primary, '#1d4ed8');
+    assert.equal(palette.secondary, '#7c3aed');
+    assert.equal(palette.accent, '#f59e0b');
+    // A tint between background and text when no section colour fits
+    assert.ok(colorDistance(palette.surface, '#ffffff') < 5);
+    assert.notEqual(palette.surface, '#ffffff');
+  });
+
+  it('uses light text on a dark page', () => {
+    const palette = buildPalette(ranked('#0f172a'), { background: '#0f172a' });
+    assert.equal(palette.text, '#f9fafb');
+  });
+});
+
+describe('inferPalette and getPalette', () => {
+  it('treats list order as usage for styles saved before palettes', () => {
+    const palette = inferPalette(['#ffffff', '#111827', '#16a34a', '#1d4ed8']);
+    assert.equal(palette.background, '#ffffff');
+    assert.equal(palette.text, '#111827');
+    assert.equal(palette.primary, '#16a34a');
+    assert.equal(palette.secondary, '#1d4ed8');
+  });
+
+  it('uses the stored palette when there is one', () => {
+    const stored = inferPalette(['#ffffff', '#111827', '#c2410c']);
+    assert.equal(getPalette({ colors: ['#000000'], palette: stored }), stored);
+  });
+});
+
+describe('storedPaletteColors', () => {
+  it('leaves out roles still on the defaults', () => {
+    const colors = ['#ffffff', '#111827', '#1d4ed8'];
+    const palette = buildPalette(rankColors(colors));
+    assert.deepEqual(storedPaletteColors({ colors, palette }).sort(), ['#111827', '#1d4ed8', '#ffffff', palette.surface].sort());
+  });
+
+  it('keeps default-looking roles the site really uses', () => {
+    const colors = ['#ffffff', '#111827', '#1d4ed8', '#f59e0b'];
+    assert.ok(storedPaletteColors({ colors, palette: buildPalette(rankColors(colors)) }).includes('#f59e0b'));
+  });
+
+  it('has nothing for styles without a stored palette', () => {
+    assert.deepEqual(storedPaletteColors({ colors: ['#ffffff'] }), []);
+  });
+});
+
+describe('mergeLogoColors', () => {
+  it('adds new logo colours and lets them replace default brand roles', () => {
+    const colors = ['#ffffff', '#111827'];
+    const merged = mergeLogoColors(
+      { colors, palette: buildPalette(rankColors(colors)), colorSources: { '#ffffff': 'stylesheet' } },
+      ['#c2410c', '#fefefe', '#0f766e']
+    );
+    assert.deepEqual(merged.colors, ['#ffffff', '#111827', '#c2410c', '#0f766e']);
+    assert.deepEqual(merged.colorSources, { '#ffffff': 'stylesheet', '#c2410c': 'logo', '#0f766e': 'logo' });
+    assert.equal(merged.palette?.primary, '#c2410c');
+    assert.equal(merged.palette?.secondary, '#0f766e');
+  });
+
+  it('keeps brand roles the stylesheets back with a real colour', () => {
+    const colors = ['#ffffff', '#111827', '#1d4ed8', '#16a34a', '#f43f5e'];
+    const palette = buildPalette(rankColors(colors));
+    assert.deepEqual(mergeLogoColors({ colors, palette }, ['#c2410c']).palette, palette);
+  });
+});
@@ -0,0 +1,116 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import publicPagesRouter from '../src/api/publicPages';
+
+const PUBLISHED = {
+  version_id: '5b2f8a7e-0000-4000-8000-000000000001',
+  html_content: '<html><body>Acme Bakery</body></html>',
+  published_at: '2026-10-19T09:30:00.000Z',
+};
+
+describe('/p/:slug', () => {
+  // Stands in for PostgREST, which answers the get_published_page call
+  let rest: Server;
+  let server: Server;
+  let baseUrl: string;
+  const requestedSlugs: string[] = [];
+
+  before(async () => {
+    rest = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        const { p_slug: slug } = JSON.parse(body || '{}');
+        requestedSlugs.push(slug);
+        if (req.url?.startsWith('/rest/v1/rpc/get_published_page') && slug === 'acme-bakery') {
+          res.end(JSON.stringify(PUBLISHED));
+        } else if (slug === 'broken-page') {
+          res.statusCode = 500;
+          res.end(JSON.stringify({ code: 'XX000', message: 'boom', details: null, hint: null }));
+        } else {
+          res.statusCode = 406;
+          res.end(JSON.stringify({
+            code: 'PGRST116',
+            message: 'JSON object requested, multiple (or no) rows returned',
+            details: 'The result contains 0 rows',
+            hint: null,
+          }));
+        }
+      });
+    });
+    await new Promise<void>(resolve => rest.listen(0, '127.0.0.1', resolve));
+    process.env.VITE_SUPABASE_URL = `http://127.0.0.1:${(rest.address() as AddressInfo).port}`;
+    process.env.VITE_SUPABASE_ANON_KEY = 'anon-key';
+
+    const app = express();
+    app.use('/p', publicPagesRouter);
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/p`;
+  });
+
+  after(() => {
+    server.close();
+    rest.close();
+  });
+
+  it('serves the published HTML with caching headers', async () => {
+    const response = await fetch(`${baseUrl}/acme-bakery`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') ?? '', /text\/html/);
+    assert.equal(response.headers.get('etag'), `"${PUBLISHED.version_id}-${Date.parse(PUBLISHED.published_at)}"`);
+    assert.equal(response.headers.get('last-modified'), new Date(PUBLISHED.published_at).toUTCString());
+    assert.equal(response.headers.get('cache-control'), 'public, max-age=60, stale-while-revalidate=300');
+    assert.match(response.headers.get('content-security-policy') ?? '', /^sandbox /);
+    assert.equal(await response.text(), PUBLISHED.html_content);
+  });
+
+  it('answers a matching ETag with 304', async () => {
+    const first = await fetch(`${baseUrl}/acme-bakery`);
+    const etag = first.headers.get('etag')!;
+    await first.text();
+
+    // fetch adds Cache-Control: no-cache to conditional requests unless told
+    // otherwise; browsers revalidate with max-age=0
+    const response = await fetch(`${baseUrl}/acme-bakery`, {
+      headers: { 'If-None-Match': etag, 'Cache-Control': 'max-age=0' },
+    });
+    assert.equal(response.status, 304);
+    assert.equal(await response.text(), '');
+  });
+
+  it('sends the page again when the ETag is stale', async () => {
+    const response = await fetch(`${baseUrl}/acme-bakery`, {
+      headers: { 'If-None-Match': '"old-version-0"', 'Cache-Control': 'max-age=0' },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(await response.text(), PUBLISHED.html_content);
+  });
+
+  it('gives unpublished and unknown slugs the 404 page', async () => {
+    const response = await fetch(`${baseUrl}/draft-page`);
+    assert.equal(response.status, 404);
+    assert.equal(response.headers.get('cache-control'), 'no-store');
+    assert.match(await response.text(), /<h1>Page not found<\/h1>/);
+  });
+
+  it('gives malformed slugs the 404 page without asking the database', async () => {
+    requestedSlugs.length = 0;
+    for (const slug of ['ab', 'Acme-Bakery', 'acme--bakery', '-acme', 'acme_bakery', 'a'.repeat(61)]) {
+      const response = await fetch(`${baseUrl}/${slug}`);
+      assert.equal(response.status, 404, slug);
+      assert.match(await response.text(), /Page not found/);
+    }
+    assert.deepEqual(requestedSlugs, []);
+  });
+
+  it('passes database errors on', async () => {
+    const response = await fetch(`${baseUrl}/broken-page`);
+    assert.equal(response.status, 500);
+  });
+});
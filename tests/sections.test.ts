@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  annotateSections,
+  describeRange,
+  findElementRange,
+  lineLocator,
+  spliceRange,
+} from '../src/lib/sections';
+
+const PAGE = `<body>
+<header class="top"><nav>Menu</nav></header>
+<!-- <section>commented out</section> -->
+<script>const markup = '<section>';</script>
+<section id="hero"><div><section>Inner</section></div><br/></section>
+<footer>Acme</footer>
+</body>`;
+
+describe('annotateSections', () => {
+  it('marks each section-like opening tag with its source offset', () => {
+    const annotated = annotateSections(PAGE);
+    const offsets = Array.from(annotated.matchAll(/<(\w+)[^>]*? data-lpg-start="(\d+)"/g), match => [match[1], Number(match[2])]);
+
+    assert.deepEqual(offsets.map(([tag]) => tag), ['header', 'nav', 'section', 'div', 'section', 'footer']);
+    offsets.forEach(([tag, offset]) => {
+      assert.ok(PAGE.startsWith(`<${tag}`, offset as number), `${tag} at ${offset}`);
+    });
+  });
+
+  it('leaves comments, scripts and other tags alone', () => {
+    const annotated = annotateSections(PAGE);
+    assert.ok(annotated.includes('<!-- <section>commented out</section> -->'));
+    assert.ok(annotated.includes(`const markup = '<section>';`));
+    assert.ok(annotated.startsWith('<body>\n'));
+    assert.equal(annotated.replace(/ data-lpg-start="\d+"/g, ''), PAGE);
+  });
+
+  it('does not mistake longer tag names for section tags', () => {
+    assert.equal(annotateSections('<divider></divider><navbar></navbar>'), '<divider></divider><navbar></navbar>');
+  });
+});
+
+describe('findElementRange', () => {
+  const rangeOf = (html: string, marker: string) => {
+    const range = findElementRange(html, html.indexOf(marker));
+    return range && html.slice(range.start, range.end);
+  };
+
+  it('includes nested elements of the same tag and the closing tag', () => {
+    assert.equal(
+      rangeOf(PAGE, '<section id="hero">'),
+      '<section id="hero"><div><section>Inner</section></div><br/></section>'
+    );
+  });
+
+  it('finds inner elements', () => {
+    assert.equal(rangeOf(PAGE, '<section>Inner'), '<section>Inner</section>');
+    assert.equal(rangeOf(PAGE, '<nav>'), '<nav>Menu</nav>');
+  });
+
+  it('ignores tags inside comments and scripts', () => {
+    const html = '<section><!-- </section> --><script>"</section>"</script><p>Hi</p></section><p>After</p>';
+    assert.equal(rangeOf(html, '<section>'), html.slice(0, html.indexOf('<p>After')));
+  });
+
+  it('returns a self-closing tag on its own', () => {
+    assert.equal(rangeOf(PAGE, '<br/>'), '<br/>');
+  });
+
+  it('returns null for unbalanced markup or an offset that is not a tag', () => {
+    assert.equal(findElementRange('<section><div>Open', 0), null);
+    assert.equal(findElementRange(PAGE, PAGE.indexOf('Menu')), null);
+    assert.equal(findElementRange(PAGE, PAGE.indexOf('</footer>')), null);
+  });
+});
+
+describe('spliceRange', () => {
+  it('replaces exactly the range and keeps the bytes around it', () => {
+    const range = findElementRange(PAGE, PAGE.indexOf('<section id="hero">'))!;
+    const spliced = spliceRange(PAGE, range, '<section id="hero">New</section>');
+
+    assert.equal(spliced.slice(0, range.start), PAGE.slice(0, range.start));
+    assert.equal(spliced.slice(range.start), `<section id="hero">New</section>${PAGE.slice(range.end)}`);
+  });
+
+  it('inserts at an empty range and removes with an empty replacement', () => {
+    assert.equal(spliceRange('<p>a</p><p>c</p>', { start: 8, end: 8 }, '<p>b</p>'), '<p>a</p><p>b</p><p>c</p>');
+    assert.equal(spliceRange('<p>a</p><p>b</p>', { start: 0, end: 8 }, ''), '<p>b</p>');
+  });
+});
+
+describe('describeRange and lineLocator', () => {
+  it('names a range by its tag, id and first class', () => {
+    const hero = findElementRange(PAGE, PAGE.indexOf('<section id="hero">'))!;
+    const header = findElementRange(PAGE, PAGE.indexOf('<header'))!;
+    assert.equal(describeRange(PAGE, hero), '<section#hero>');
+    assert.equal(describeRange(PAGE, header), '<header.top>');
+  });
+
+  it('falls back to line numbers for ranges that do not start at a tag', () => {
+    assert.equal(describeRange(PAGE, { start: PAGE.indexOf('Menu'), end: PAGE.indexOf('Acme') }), 'lines 2-6');
+  });
+
+  it('gives the 1-based line of an offset', () => {
+    const lineAt = lineLocator(PAGE);
+    assert.equal(lineAt(0), 1);
+    assert.equal(lineAt(PAGE.indexOf('\n')), 1);
+    assert.equal(lineAt(PAGE.indexOf('<header')), 2);
+    assert.equal(lineAt(PAGE.indexOf('<footer')), 6);
+    assert.equal(lineAt(PAGE.length), 7);
+  });
+});
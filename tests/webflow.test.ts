@@ -0,0 +1,97 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { getDeployTarget } from '../src/api/deployTargets';
+import { createMockWebflowRouter } from '../src/api/mockWebflow';
+import type { Project, Version } from '../src/types/database';
+
+const project = { id: 'a1b2c3d4-0000-4000-8000-000000000001', name: 'Acme Bakery', slug: 'acme-bakery' } as Project;
+
+const SITE_ID = '64f1a2b3c4d5e6f708192a3b';
+const COLLECTION_ID = '64f1a2b3c4d5e6f708192a3c';
+const OTHER_COLLECTION_ID = '64f1a2b3c4d5e6f708192a3d';
+const MISSING_ITEM_ID = '000000000000000000000000';
+
+const version = (html: string) => ({ id: 'v1', version_number: 1, html_content: html }) as Version;
+
+describe('Webflow deployments against the mock API', () => {
+  let server: Server;
+  let baseURL: string;
+  const log: string[] = [];
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/v2', createMockWebflowRouter());
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v2`;
+    process.env.WEBFLOW_API_TOKEN = 'test-token';
+    process.env.WEBFLOW_API_BASE_URL = baseURL;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const deploy = (html: string, settings: Record<string, unknown>) =>
+    getDeployTarget('webflow').deploy({
+      project,
+      version: version(html),
+      settings,
+      log: message => log.push(message),
+    });
+
+  const getItem = async (collectionId: string, itemId: string) => {
+    const response = await fetch(`${baseURL}/collections/${collectionId}/items/${itemId}`, {
+      headers: { Authorization: 'Bearer test-token' },
+    });
+    return response.json();
+  };
+
+  it('creates and publishes an item on the first deploy', async () => {
+    const result = await deploy('<html>v1</html>', { site_id: SITE_ID, collection_id: COLLECTION_ID });
+
+    assert.ok(result.externalId);
+    assert.equal(result.url, 'https://mock-site.webflow.io/pages/acme-bakery');
+    assert.deepEqual(result.settings, { site_id: SITE_ID, collection_id: COLLECTION_ID, item_id: result.externalId });
+
+    const item = await getItem(COLLECTION_ID, result.externalId);
+    assert.deepEqual(item.fieldData, { name: 'Acme Bakery', slug: 'acme-bakery', 'page-html': '<html>v1</html>' });
+    assert.ok(item.lastPublished);
+  });
+
+  it('updates the stored item on later deploys', async () => {
+    const first = await deploy('<html>v1</html>', { site_id: SITE_ID, collection_id: COLLECTION_ID, html_field: 'body' });
+    const second = await deploy('<html>v2</html>', { ...first.settings });
+
+    assert.equal(second.externalId, first.externalId);
+    const item = await getItem(COLLECTION_ID, second.externalId!);
+    assert.equal(item.fieldData.body, '<html>v2</html>');
+  });
+
+  it('creates a new item when the stored one is gone', async () => {
+    log.length = 0;
+    const result = await deploy('<html>v3</html>', { site_id: SITE_ID, collection_id: OTHER_COLLECTION_ID, item_id: MISSING_ITEM_ID });
+
+    assert.notEqual(result.externalId, MISSING_ITEM_ID);
+    assert.ok(log.includes(`Item ${MISSING_ITEM_ID} no longer exists; creating a new one`));
+  });
+
+  it('fails without a collection ID', async () => {
+    await assert.rejects(deploy('<html></html>', { site_id: SITE_ID }), /needs a site ID and a collection ID/);
+  });
+
+  it('rejects IDs that are not Webflow IDs', async () => {
+    for (const settings of [
+      { site_id: '../../sites', collection_id: COLLECTION_ID },
+      { site_id: SITE_ID, collection_id: `${COLLECTION_ID}?x=1` },
+      { site_id: SITE_ID, collection_id: COLLECTION_ID, item_id: '../publish' },
+    ]) {
+      await assert.rejects(deploy('<html></html>', settings), /ID must be 24 hexadecimal characters/, JSON.stringify(settings));
+    }
+  });
+});